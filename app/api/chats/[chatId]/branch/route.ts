@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import connectDB from '@/lib/mongodb';
+import Chat from '@/lib/models/Chat';
+import { findLatestLeaf, getActiveThread, normalizeMessageTree } from '@/lib/chat/tree';
+
+/**
+ * PATCH /api/chats/[chatId]/branch
+ * Switches the active branch to the one containing the given message
+ * The branch is followed down to its most recent reply
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { chatId } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { messageId } = await request.json();
+
+    if (typeof messageId !== 'string' || !messageId) {
+      return NextResponse.json({ error: 'Message id is required' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const chat = await Chat.findOne({ _id: chatId, userId, deletedAt: null });
+
+    if (!chat) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
+
+    if (!chat.messages.id(messageId)) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+
+    normalizeMessageTree(chat);
+    chat.currentLeafId = findLatestLeaf(chat.messages, messageId);
+    await chat.save();
+
+    const { currentLeafId, messages } = chat.toObject();
+    return NextResponse.json({
+      currentLeafId,
+      messages: getActiveThread({ currentLeafId, messages }),
+    });
+  } catch (error) {
+    console.error('Error switching branch:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
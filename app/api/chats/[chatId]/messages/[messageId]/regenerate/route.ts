@@ -0,0 +1,220 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import connectDB from '@/lib/mongodb';
+import Chat, { IMessage } from '@/lib/models/Chat';
+import UserPreferences from '@/lib/models/UserPreferences';
+import Project from '@/lib/models/Project';
+import { addAlternative } from '@/lib/chat/alternatives';
+import { createGenerationStream } from '@/lib/chat/generation';
+import { getPathToMessage, normalizeMessageTree } from '@/lib/chat/tree';
+import { loadImageAttachments } from '@/lib/files/images';
+import { retrieveForQuestion } from '@/lib/rag/retrieval';
+import { Citation, MessageAlternative } from '@/lib/types/chat';
+import {
+  getLLMProvider,
+  resolveGenerationOptions,
+  buildSystemPrompt,
+  buildAttachmentContext,
+  canSendImages,
+  fitToContextWindow,
+  ContextWindow,
+  LLMMessage,
+} from '@/lib/llm';
+
+/** Reads of the reply before giving up when other versions keep being stored */
+const SAVE_ALTERNATIVE_ATTEMPTS = 3;
+
+/**
+ * Stores a new version of a reply and selects it
+ * The reply is read fresh and only written if no other version was stored in the meantime,
+ * so changes made while the model was generating are never overwritten
+ * @param chatId - Chat of the reply
+ * @param userId - Owner of the chat
+ * @param messageId - Id of the assistant message
+ * @param alternative - New version
+ * @returns The updated reply, or null if it no longer exists
+ */
+async function saveAlternative(
+  chatId: string,
+  userId: string,
+  messageId: string,
+  alternative: MessageAlternative
+): Promise<IMessage | null> {
+  for (let attempt = 0; attempt < SAVE_ALTERNATIVE_ATTEMPTS; attempt++) {
+    const chat = await Chat.findOne(
+      { _id: chatId, userId, deletedAt: null, 'messages._id': messageId },
+      { 'messages.$': 1 }
+    ).lean<{ messages: IMessage[] }>();
+    const message = chat?.messages[0];
+    if (!message) return null;
+
+    const count = message.alternatives?.length ?? 0;
+    addAlternative(message, alternative);
+
+    // Matches only while the reply still has the versions read above
+    const unchanged = count === 0
+      ? { 'alternatives.0': { $exists: false } }
+      : { [`alternatives.${count - 1}`]: { $exists: true }, [`alternatives.${count}`]: { $exists: false } };
+
+    const $set: Record<string, unknown> = { updatedAt: new Date() };
+    const $unset: Record<string, ''> = {};
+    const fields = {
+      content: message.content,
+      timestamp: message.timestamp,
+      context: message.context,
+      citations: message.citations,
+      stopped: message.stopped,
+      alternatives: message.alternatives,
+      selectedAlternative: message.selectedAlternative,
+    };
+    for (const [field, value] of Object.entries(fields)) {
+      if (value === undefined) {
+        $unset[`messages.$.${field}`] = '';
+      } else {
+        $set[`messages.$.${field}`] = value;
+      }
+    }
+
+    const result = await Chat.updateOne(
+      { _id: chatId, userId, deletedAt: null, messages: { $elemMatch: { _id: messageId, ...unchanged } } },
+      Object.keys($unset).length > 0 ? { $set, $unset } : { $set }
+    );
+    if (result.matchedCount > 0) return message;
+  }
+
+  throw new Error('Reply kept changing while a new version was stored');
+}
+
+/**
+ * POST /api/chats/[chatId]/messages/[messageId]/regenerate
+ * Streams a new version of an assistant reply without re-adding the user turn
+ * Earlier versions are kept as alternatives and the new one becomes canonical.
+ * Runs as a resumable stream session like new replies, so it can be stopped and resumed;
+ * document excerpts are retrieved again, so the new version carries its own citations
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string; messageId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { chatId, messageId } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const chat = await Chat.findOne({ _id: chatId, userId, deletedAt: null });
+
+    if (!chat) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
+
+    const message = chat.messages.id(messageId);
+
+    if (!message) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+
+    if (message.role !== 'assistant') {
+      return NextResponse.json({ error: 'Only assistant messages can be regenerated' }, { status: 400 });
+    }
+
+    normalizeMessageTree(chat);
+
+    // The conversation up to and including the user turn this reply answers
+    const path = getPathToMessage<IMessage>(chat.messages, message.parentId);
+    const userTurn = path[path.length - 1];
+
+    if (!userTurn || userTurn.role !== 'user') {
+      return NextResponse.json({ error: 'Reply has no user message to answer' }, { status: 400 });
+    }
+
+    const preferences = await UserPreferences.findOne({ userId });
+    const project = chat.projectId ? await Project.findOne({ _id: chat.projectId, userId }) : null;
+    const systemPrompt = buildSystemPrompt({
+      chatSystemPrompt: chat.settings?.systemPrompt,
+      customInstructions: preferences?.customInstructions,
+      projectInstructions: project?.customInstructions,
+      hasAttachments: !!userTurn.files?.length,
+    });
+
+    const provider = getLLMProvider();
+    const generationOptions = resolveGenerationOptions(chat.settings, project?.defaultModel);
+    const original = message.toObject();
+    let context: ContextWindow | null = null;
+    let citations: Citation[] = [];
+
+    /**
+     * Stores a generated version of the reply
+     * @param content - Reply text
+     * @param stopped - Whether generation was stopped before it finished
+     */
+    const storeVersion = async (content: string, stopped?: boolean) => {
+      const saved = await saveAlternative(chatId, userId, messageId, {
+        content,
+        timestamp: new Date(),
+        context: context ? {
+          includedMessages: context.includedMessages,
+          totalMessages: context.totalMessages,
+        } : undefined,
+        citations: citations.length > 0 ? citations : undefined,
+        stopped,
+      });
+      if (!saved) throw new Error('Reply was deleted while regenerating');
+      return saved;
+    };
+
+    return createGenerationStream(request, { chatId, userId }, {
+      startEvent: { type: 'regenerating', messageId },
+
+      async prepare() {
+        // Vision models get the attached images themselves, not just their names
+        const images = canSendImages(provider, generationOptions.model)
+          ? await loadImageAttachments(userTurn.files)
+          : [];
+        const retrieval = await retrieveForQuestion(
+          chat._id,
+          userId,
+          path.flatMap(msg => msg.files || []),
+          userTurn.content
+        );
+        citations = retrieval.citations;
+        const history: LLMMessage[] = [
+          ...path.slice(0, -1).map(msg => ({
+            role: msg.role,
+            content: msg.content,
+          })),
+          {
+            role: 'user',
+            content: buildAttachmentContext(userTurn.content, userTurn.files, retrieval),
+            images: images.length > 0 ? images : undefined,
+          },
+        ];
+        context = await fitToContextWindow(provider, systemPrompt, history, generationOptions);
+        console.log(`🔁 Regenerating response with ${provider.name}...`);
+        return { provider, messages: context.messages, options: generationOptions };
+      },
+
+      async onComplete(content) {
+        const assistantMessage = await storeVersion(content);
+        return { assistantMessage, context: assistantMessage.context, citations };
+      },
+
+      async onStopped(content) {
+        // Without any content the existing versions stay as they were
+        return { message: content ? await storeVersion(content, true) : original };
+      },
+
+      async onError() {
+        // Keep the existing versions untouched when generation fails
+        return { message: original, error: 'AI service temporarily unavailable' };
+      },
+    });
+  } catch (error) {
+    console.error('Error regenerating message:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import connectDB from '@/lib/mongodb';
+import Chat, { IMessage } from '@/lib/models/Chat';
+import { selectAlternative } from '@/lib/chat/alternatives';
+import {
+  collectSubtreeIds,
+  findLatestLeaf,
+  getChildren,
+  normalizeMessageTree,
+  toId,
+} from '@/lib/chat/tree';
+
+/**
+ * GET /api/chats/[chatId]/messages/[messageId]
+ * Fetches a single message by its id
+ * Verifies chat ownership before returning the message
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string; messageId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { chatId, messageId } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const chat = await Chat.findOne({ _id: chatId, userId, deletedAt: null });
+
+    if (!chat) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
+
+    const message = chat.messages.id(messageId);
+
+    if (!message) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message });
+  } catch (error) {
+    console.error('Error fetching message:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/chats/[chatId]/messages/[messageId]
+ * Replaces the content of a single message, or picks its canonical regenerated version
+ * Other messages are left untouched, whatever their position
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string; messageId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { chatId, messageId } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { content, selectedAlternative } = await request.json();
+    const selecting = selectedAlternative !== undefined;
+
+    if (selecting && !Number.isInteger(selectedAlternative)) {
+      return NextResponse.json({ error: 'selectedAlternative must be an integer' }, { status: 400 });
+    }
+
+    if (!selecting && (typeof content !== 'string' || !content.trim())) {
+      return NextResponse.json({ error: 'Content is required' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const chat = await Chat.findOne({ _id: chatId, userId, deletedAt: null });
+
+    if (!chat) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
+
+    const message = chat.messages.id(messageId);
+
+    if (!message) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+
+    if (selecting) {
+      if (!selectAlternative(message, selectedAlternative)) {
+        return NextResponse.json({ error: 'Alternative not found' }, { status: 400 });
+      }
+    } else {
+      message.content = content.trim();
+      // Keep the selected version in sync with the edited content
+      const alternative = message.alternatives?.[message.selectedAlternative ?? -1];
+      if (alternative) alternative.content = message.content;
+    }
+
+    await chat.save();
+
+    return NextResponse.json({ message });
+  } catch (error) {
+    console.error('Error updating message:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/chats/[chatId]/messages/[messageId]
+ * Removes a message together with every reply branching from it
+ * Verifies chat ownership before deletion
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string; messageId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { chatId, messageId } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const chat = await Chat.findOne({ _id: chatId, userId, deletedAt: null });
+
+    if (!chat) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
+
+    const message = chat.messages.id(messageId);
+
+    if (!message) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+
+    normalizeMessageTree(chat);
+
+    // Replies only make sense below their parent, so the whole branch goes
+    const removedIds = collectSubtreeIds<IMessage>(chat.messages, message._id);
+    chat.messages = chat.messages.filter((msg: IMessage) => !removedIds.has(String(msg._id)));
+
+    const currentLeafId = toId(chat.currentLeafId);
+    if (currentLeafId && removedIds.has(currentLeafId)) {
+      // Fall back to the latest remaining branch next to the deleted message
+      const anchorId = message.parentId ?? getChildren<IMessage>(chat.messages, null).pop()?._id;
+      chat.currentLeafId = anchorId ? findLatestLeaf(chat.messages, anchorId) : null;
+    }
+
+    await chat.save();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting message:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,12 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
+import { Types } from 'mongoose';
 import connectDB from '@/lib/mongodb';
-import Chat from '@/lib/models/Chat';
+import Chat, { IMessage } from '@/lib/models/Chat';
+import UserPreferences from '@/lib/models/UserPreferences';
+import Project from '@/lib/models/Project';
+import { getPathToMessage, normalizeMessageTree } from '@/lib/chat/tree';
+import { replaceAutomaticTitle } from '@/lib/chat/title';
+import {
+  getLLMProvider,
+  resolveGenerationOptions,
+  buildSystemPrompt,
+  fitToContextWindow,
+  generateChatTitle,
+  LLMMessage,
+} from '@/lib/llm';
 
 /**
  * POST /api/chats/[chatId]/messages
  * Adds a new message to chat and generates AI response
- * Integrates with Perplexity AI for assistant responses
+ * Uses the configured LLM provider for assistant responses
  */
 export async function POST(
   request: NextRequest,
@@ -28,78 +41,81 @@ export async function POST(
 
     await connectDB();
 
-    const chat = await Chat.findOne({ _id: chatId, userId });
+    const chat = await Chat.findOne({ _id: chatId, userId, deletedAt: null });
 
     if (!chat) {
       return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
     }
 
+    normalizeMessageTree(chat);
+
+    const preferences = await UserPreferences.findOne({ userId });
+    const project = chat.projectId ? await Project.findOne({ _id: chat.projectId, userId }) : null;
+    const systemPrompt = buildSystemPrompt({
+      chatSystemPrompt: chat.settings?.systemPrompt,
+      customInstructions: preferences?.customInstructions,
+      projectInstructions: project?.customInstructions,
+    });
+
     // Add user message
     const userMessage = {
+      _id: new Types.ObjectId(),
+      parentId: chat.currentLeafId ?? null,
       role: 'user' as const,
       content: message.trim(),
       timestamp: new Date(),
     };
 
     chat.messages.push(userMessage);
+    chat.currentLeafId = userMessage._id;
 
     try {
-      // Call Perplexity AI
-      console.log('🤖 Sending request to Perplexity AI...');
-      const perplexityResponse = await fetch('https://api.perplexity.ai/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'sonar',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a helpful AI assistant. Be concise and accurate in your responses.',
-            },
-            ...chat.messages.map((msg: { role: string; content: string }) => ({
-              role: msg.role,
-              content: msg.content,
-            })),
-          ],
-          max_tokens: 1000,
-          temperature: 0.7,
-        }),
-      });
-
-      console.log('📡 Perplexity API response status:', perplexityResponse.status);
-
-      if (!perplexityResponse.ok) {
-        const errorText = await perplexityResponse.text();
-        console.error('❌ Perplexity API error:', errorText);
-        throw new Error(`Perplexity API error: ${perplexityResponse.status} - ${errorText}`);
-      }
-
-      const aiResponse = await perplexityResponse.json();
+      const provider = getLLMProvider();
+      const generationOptions = resolveGenerationOptions(chat.settings, project?.defaultModel);
+      const history: LLMMessage[] = getPathToMessage<IMessage>(chat.messages, userMessage._id).map(msg => ({
+        role: msg.role,
+        content: msg.content,
+      }));
+      const context = await fitToContextWindow(provider, systemPrompt, history, generationOptions);
+
+      console.log(`🤖 Sending request to ${provider.name}...`);
+      const aiContent = await provider.complete(context.messages, generationOptions);
       console.log('✅ Received AI response');
       
       const assistantMessage = {
+        _id: new Types.ObjectId(),
+        parentId: userMessage._id,
         role: 'assistant' as const,
-        content: aiResponse.choices[0]?.message?.content || 'Sorry, I could not generate a response.',
+        content: aiContent || 'Sorry, I could not generate a response.',
         timestamp: new Date(),
+        context: {
+          includedMessages: context.includedMessages,
+          totalMessages: context.totalMessages,
+        },
       };
 
       chat.messages.push(assistantMessage);
+      chat.currentLeafId = assistantMessage._id;
+      const isFirstExchange = chat.messages.length === 2;
+      const loadedTitle = chat.title;
+      await chat.save();
 
-      // Update chat title if it's the first message
-      if (chat.messages.length === 2) {
-        const firstWords = message.trim().split(' ').slice(0, 6).join(' ');
-        chat.title = firstWords.length > 50 ? firstWords.substring(0, 47) + '...' : firstWords;
+      // Name the chat after its first exchange, unless it was renamed while the reply was generating
+      let chatTitle = loadedTitle;
+      if (isFirstExchange) {
+        const title = await generateChatTitle(provider, {
+          userMessage: message.trim(),
+          assistantMessage: assistantMessage.content,
+        }, generationOptions.model);
+        chatTitle = await replaceAutomaticTitle(chat, loadedTitle, title)
+          ? title
+          : (await Chat.findById(chat._id).select('title'))?.title ?? loadedTitle;
       }
 
-      await chat.save();
-
       return NextResponse.json({
         userMessage,
         assistantMessage,
-        chatTitle: chat.title,
+        chatTitle,
       });
 
     } catch (aiError) {
@@ -107,12 +123,15 @@ export async function POST(
       
       // Add error message to chat
       const errorMessage = {
+        _id: new Types.ObjectId(),
+        parentId: userMessage._id,
         role: 'assistant' as const,
         content: 'Sorry, I encountered an error while processing your message. Please try again.',
         timestamp: new Date(),
       };
 
       chat.messages.push(errorMessage);
+      chat.currentLeafId = errorMessage._id;
       await chat.save();
 
       return NextResponse.json({
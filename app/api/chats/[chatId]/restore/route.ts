@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import connectDB from '@/lib/mongodb';
+import Chat from '@/lib/models/Chat';
+
+/**
+ * POST /api/chats/[chatId]/restore
+ * Moves a chat out of the trash
+ * The chat returns to the list it was deleted from
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { chatId } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const chat = await Chat.findOneAndUpdate(
+      { _id: chatId, userId, deletedAt: { $ne: null } },
+      { $set: { deletedAt: null } },
+      { new: true }
+    ).select('_id title projectId pinned archived deletedAt createdAt updatedAt');
+
+    if (!chat) {
+      return NextResponse.json({ error: 'Chat not found in trash' }, { status: 404 });
+    }
+
+    return NextResponse.json({ chat });
+  } catch (error) {
+    console.error('Error restoring chat:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
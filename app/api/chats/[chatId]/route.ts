@@ -1,12 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
+import { Types } from 'mongoose';
 import connectDB from '@/lib/mongodb';
-import Chat from '@/lib/models/Chat';
+import Chat, { IChat } from '@/lib/models/Chat';
+import Project from '@/lib/models/Project';
+import { getActiveThread } from '@/lib/chat/tree';
+import { clampTitle } from '@/lib/chat/title';
+import { purgeChat } from '@/lib/trash';
 
 /**
  * GET /api/chats/[chatId]
  * Fetches a specific chat conversation by ID
- * Verifies ownership before returning chat data
+ * Verifies ownership before returning the messages of the active branch
  */
 export async function GET(
   request: NextRequest,
@@ -22,23 +27,104 @@ export async function GET(
 
     await connectDB();
 
-    const chat = await Chat.findOne({ _id: chatId, userId });
+    const chat = await Chat.findOne({ _id: chatId, userId, deletedAt: null }).lean<IChat>();
 
     if (!chat) {
       return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ chat });
+    // Only the active branch is sent, with sibling info for branch navigation
+    return NextResponse.json({ chat: { ...chat, messages: getActiveThread(chat) } });
   } catch (error) {
     console.error('Error fetching chat:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
 
+/**
+ * PATCH /api/chats/[chatId]
+ * Renames, pins, archives or moves a chat between projects
+ * Archiving also unpins; the update time is left alone so the list order holds
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { chatId } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { title, projectId, pinned, archived } = await request.json();
+    const updates: { title?: string; projectId?: string | null; pinned?: boolean; archived?: boolean } = {};
+
+    if (title !== undefined) {
+      if (typeof title !== 'string' || !title.trim()) {
+        return NextResponse.json({ error: 'Title must be a non-empty string' }, { status: 400 });
+      }
+      updates.title = clampTitle(title.trim());
+    }
+
+    if (projectId !== undefined) {
+      if (projectId !== null && typeof projectId !== 'string') {
+        return NextResponse.json({ error: 'Project id must be a string or null' }, { status: 400 });
+      }
+      if (projectId && !Types.ObjectId.isValid(projectId)) {
+        return NextResponse.json({ error: 'Invalid project id' }, { status: 400 });
+      }
+      updates.projectId = projectId || null;
+    }
+
+    if (pinned !== undefined) {
+      if (typeof pinned !== 'boolean') {
+        return NextResponse.json({ error: 'Pinned must be a boolean' }, { status: 400 });
+      }
+      updates.pinned = pinned;
+    }
+
+    if (archived !== undefined) {
+      if (typeof archived !== 'boolean') {
+        return NextResponse.json({ error: 'Archived must be a boolean' }, { status: 400 });
+      }
+      updates.archived = archived;
+      if (archived) updates.pinned = false;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'No changes provided' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    if (updates.projectId && !(await Project.exists({ _id: updates.projectId, userId }))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    // findOneAndUpdate skips the save hook, so updatedAt is not bumped
+    const chat = await Chat.findOneAndUpdate(
+      { _id: chatId, userId, deletedAt: null },
+      { $set: updates },
+      { new: true }
+    ).select('_id title projectId pinned archived createdAt updatedAt');
+
+    if (!chat) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ chat });
+  } catch (error) {
+    console.error('Error updating chat:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
 /**
  * DELETE /api/chats/[chatId]
- * Deletes a specific chat conversation
- * Verifies ownership before deletion
+ * Moves a chat to the trash, where it can be restored until it is purged
+ * `?permanent=true` deletes a chat that is already in the trash, with its attachments
  */
 export async function DELETE(
   request: NextRequest,
@@ -54,17 +140,43 @@ export async function DELETE(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const permanent = request.nextUrl.searchParams.get('permanent') === 'true';
+
     await connectDB();
 
-    const deletedChat = await Chat.findOneAndDelete({ _id: chatId, userId });
+    if (permanent) {
+      // Only chats already in the trash can be deleted for good
+      const trashedChat = await Chat.findOne({ _id: chatId, userId, deletedAt: { $ne: null } })
+        .select('_id messages.files');
+
+      if (!trashedChat) {
+        return NextResponse.json({ error: 'Chat not found in trash' }, { status: 404 });
+      }
+
+      if (!(await purgeChat(trashedChat))) {
+        return NextResponse.json(
+          { error: 'Failed to delete chat attachments. Please try again.' },
+          { status: 502 }
+        );
+      }
+
+      console.log('Chat permanently deleted:', trashedChat._id);
+      return NextResponse.json({ message: 'Chat permanently deleted' });
+    }
+
+    const deletedChat = await Chat.findOneAndUpdate(
+      { _id: chatId, userId, deletedAt: null },
+      { $set: { deletedAt: new Date() } },
+      { new: true }
+    ).select('_id title projectId pinned archived deletedAt createdAt updatedAt');
 
     if (!deletedChat) {
       console.log('Chat not found - chatId:', chatId, 'userId:', userId);
       return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
     }
 
-    console.log('Chat deleted successfully:', deletedChat._id);
-    return NextResponse.json({ message: 'Chat deleted successfully' });
+    console.log('Chat moved to trash:', deletedChat._id);
+    return NextResponse.json({ message: 'Chat moved to trash', chat: deletedChat });
   } catch (error) {
     console.error('Error deleting chat:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import connectDB from '@/lib/mongodb';
+import Chat from '@/lib/models/Chat';
+import { validateChatSettings } from '@/lib/llm';
+
+/**
+ * PATCH /api/chats/[chatId]/settings
+ * Replaces the model selection and generation settings of a chat
+ * Omitted fields fall back to the provider defaults
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { chatId } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { settings: input } = await request.json();
+    const { settings, error } = validateChatSettings(input);
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const chat = await Chat.findOneAndUpdate(
+      { _id: chatId, userId, deletedAt: null },
+      { $set: { settings } },
+      { new: true }
+    );
+
+    if (!chat) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ settings: chat.settings });
+  } catch (error) {
+    console.error('Error updating chat settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import connectDB from '@/lib/mongodb';
+import StreamSession from '@/lib/models/StreamSession';
+import { formatSSE } from '@/lib/sse';
+import { STREAM_POLL_INTERVAL_MS, STREAM_STALE_AFTER_MS, abortGeneration } from '@/lib/streams';
+
+/**
+ * Waits for the given number of milliseconds
+ * @param ms - Delay in milliseconds
+ */
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * GET /api/chats/[chatId]/stream/[streamId]
+ * Resumes a response stream from the offset given by the Last-Event-ID header
+ * Replays missed content, then follows the session until generation finishes
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string; streamId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { chatId, streamId } = await params;
+
+    if (!userId) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    await connectDB();
+
+    let session = await StreamSession.findOne({ streamId, chatId, userId });
+
+    if (!session) {
+      return new Response('Stream not found', { status: 404 });
+    }
+
+    const lastEventId = Number(request.headers.get('last-event-id') || 0);
+    let offset = Number.isFinite(lastEventId) && lastEventId > 0 ? lastEventId : 0;
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+      async start(controller) {
+        /**
+         * Sends an SSE event unless the client has disconnected
+         * @param payload - Event data
+         * @param id - Content offset reached after this event
+         */
+        const send = (payload: Record<string, unknown>, id?: number) => {
+          if (request.signal.aborted) return;
+          controller.enqueue(encoder.encode(formatSSE(payload, { id })));
+        };
+
+        try {
+          while (!request.signal.aborted) {
+            const content: string = session.content;
+
+            switch (session.status) {
+              case 'complete':
+                send({ type: 'complete', ...session.result }, content.length);
+                return;
+              case 'stopped':
+                send({ type: 'stopped', ...session.result }, content.length);
+                return;
+              case 'error':
+                send({ type: 'error', ...session.result }, content.length);
+                return;
+            }
+
+            if (content.length > offset) {
+              send({ type: 'chunk', content: content.slice(offset) }, content.length);
+              offset = content.length;
+            }
+
+            if (Date.now() - new Date(session.updatedAt).getTime() > STREAM_STALE_AFTER_MS) {
+              console.log('⚠️ Abandoned stream session:', streamId);
+              send({ type: 'error', error: 'The response was interrupted. Please try again.' });
+              return;
+            }
+
+            await sleep(STREAM_POLL_INTERVAL_MS);
+            session = await StreamSession.findOne({ streamId });
+
+            if (!session) {
+              send({ type: 'error', error: 'The response is no longer available.' });
+              return;
+            }
+          }
+        } catch (error) {
+          console.error('Error resuming stream:', error);
+          send({ type: 'error', error: 'Failed to resume the response' });
+        } finally {
+          try {
+            controller.close();
+          } catch {
+            // Stream was already cancelled by the client
+          }
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Error in stream resume endpoint:', error);
+    return new Response('Internal server error', { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/chats/[chatId]/stream/[streamId]
+ * Stops a response that is still being generated
+ * The generating request saves the partial reply and marks it as stopped
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string; streamId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { chatId, streamId } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const session = await StreamSession.findOne({ streamId, chatId, userId });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Stream not found' }, { status: 404 });
+    }
+
+    if (session.status === 'streaming') {
+      session.status = 'stopping';
+      await session.save();
+      abortGeneration(streamId);
+    }
+
+    return NextResponse.json({ success: true, status: session.status });
+  } catch (error) {
+    console.error('Error stopping stream:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,12 +1,41 @@
 import { NextRequest } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
+import { Types } from 'mongoose';
 import connectDB from '@/lib/mongodb';
-import Chat from '@/lib/models/Chat';
+import Chat, { IMessage } from '@/lib/models/Chat';
+import UserPreferences from '@/lib/models/UserPreferences';
+import Project from '@/lib/models/Project';
+import StreamSession from '@/lib/models/StreamSession';
+import { getBranchInfo, getPathToMessage, normalizeMessageTree } from '@/lib/chat/tree';
+import { getFallbackTitle, replaceAutomaticTitle } from '@/lib/chat/title';
+import { Attachment, Citation } from '@/lib/types/chat';
+import { createGenerationStream } from '@/lib/chat/generation';
+import { loadImageAttachments } from '@/lib/files/images';
+import { verifyAttachments } from '@/lib/files/signing';
+import { retrieveForQuestion } from '@/lib/rag/retrieval';
+import {
+  getLLMProvider,
+  resolveGenerationOptions,
+  buildSystemPrompt,
+  buildAttachmentContext,
+  canSendImages,
+  fitToContextWindow,
+  generateChatTitle,
+  ContextWindow,
+  LLMMessage,
+} from '@/lib/llm';
 
 /**
  * POST /api/chats/[chatId]/stream
  * Handles streaming chat responses with real-time updates
- * Uses Server-Sent Events for progressive response delivery
+ * Forwards model deltas as Server-Sent Events as soon as they arrive
+ * Accepts optional processed file attachments as extra model context; images are
+ * sent as image content when the model supports vision
+ * Long documents on the branch are searched for excerpts relevant to the message,
+ * which are cited in the `complete` event
+ * With `editMessageId` the message becomes a new branch next to the edited one
+ * Progress is persisted to a stream session so the response survives reloads;
+ * event ids are offsets into the generated content for use as Last-Event-ID
  */
 export async function POST(
   request: NextRequest,
@@ -20,192 +49,203 @@ export async function POST(
       return new Response('Unauthorized', { status: 401 });
     }
 
-    const { message } = await request.json();
+    const {
+      message,
+      files: sentFiles,
+      editMessageId,
+    }: { message?: string; files?: Attachment[] | null; editMessageId?: string } = await request.json();
 
     if (!message?.trim()) {
       return new Response('Message is required', { status: 400 });
     }
 
+    // Only Cloudinary files issued by /api/files/process may be stored, and later deleted
+    const files = verifyAttachments(userId, sentFiles);
+
     await connectDB();
 
-    const chat = await Chat.findOne({ _id: chatId, userId });
+    const chat = await Chat.findOne({ _id: chatId, userId, deletedAt: null });
 
     if (!chat) {
       return new Response('Chat not found', { status: 404 });
     }
 
-    // Add user message
+    normalizeMessageTree(chat);
+
+    // New turns continue the active branch; an edit starts a sibling of the edited message
+    let parentId = chat.currentLeafId ?? null;
+    if (editMessageId) {
+      const editedMessage = chat.messages.id(editMessageId);
+      if (!editedMessage || editedMessage.role !== 'user') {
+        return new Response('Message not found', { status: 404 });
+      }
+      parentId = editedMessage.parentId ?? null;
+    }
+
+    const preferences = await UserPreferences.findOne({ userId });
+    const project = chat.projectId ? await Project.findOne({ _id: chat.projectId, userId }) : null;
+    const systemPrompt = buildSystemPrompt({
+      chatSystemPrompt: chat.settings?.systemPrompt,
+      customInstructions: preferences?.customInstructions,
+      projectInstructions: project?.customInstructions,
+      hasAttachments: !!files?.length,
+    });
+
+    const provider = getLLMProvider();
+    const generationOptions = resolveGenerationOptions(chat.settings, project?.defaultModel);
+
+    // Add user message with clean content
     const userMessage = {
+      _id: new Types.ObjectId(),
+      parentId,
       role: 'user' as const,
       content: message.trim(),
       timestamp: new Date(),
+      files,
     };
 
     chat.messages.push(userMessage);
+    chat.currentLeafId = userMessage._id;
+    // Persist the user turn up front so it is visible after a reload mid-response
+    await chat.save();
 
-    // Create streaming response
-    const encoder = new TextEncoder();
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          // Send user message first
-          controller.enqueue(
-            encoder.encode(`data: ${JSON.stringify({ 
-              type: 'userMessage', 
-              message: userMessage 
-            })}\n\n`)
-          );
-
-          // Call Perplexity AI with streaming
-          console.log('🤖 Sending streaming request to Perplexity AI...');
-          console.log('🔑 API Key present:', !!process.env.PERPLEXITY_API_KEY);
-          console.log('🔑 API Key format:', process.env.PERPLEXITY_API_KEY?.substring(0, 10) + '...');
-          const perplexityResponse = await fetch('https://api.perplexity.ai/chat/completions', {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              model: 'sonar',
-              messages: [
-                {
-                  role: 'system',
-                  content: 'You are a helpful AI assistant. Be concise and accurate in your responses.',
-                },
-                ...chat.messages.map((msg: { role: string; content: string }) => ({
-                  role: msg.role,
-                  content: msg.content,
-                })),
-              ],
-              max_tokens: 1000,
-              temperature: 0.7,
-              stream: true, // Enable streaming for real-time effect
-            }),
-          });
-
-          console.log('📡 Perplexity API streaming response status:', perplexityResponse.status);
-
-          if (!perplexityResponse.ok) {
-            const errorText = await perplexityResponse.text();
-            console.error('❌ Perplexity API error response:', errorText);
-            throw new Error(`Perplexity API error: ${perplexityResponse.status} - ${errorText}`);
-          }
-
-          // Handle streaming response
-          const reader = perplexityResponse.body?.getReader();
-          if (!reader) {
-            throw new Error('Failed to get reader from response');
-          }
-
-          let fullResponse = '';
-          const decoder = new TextDecoder();
-
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-
-            const chunk = decoder.decode(value, { stream: true });
-            const lines = chunk.split('\n');
-
-            for (const line of lines) {
-              if (line.startsWith('data: ')) {
-                const data = line.slice(6).trim();
-                if (data === '[DONE]') continue;
-                if (!data) continue;
-
-                try {
-                  const parsed = JSON.parse(data);
-                  const content = parsed.choices?.[0]?.delta?.content;
-                  
-                  if (content) {
-                    fullResponse += content;
-                    // Send each chunk as it comes
-                    controller.enqueue(
-                      encoder.encode(`data: ${JSON.stringify({ 
-                        type: 'chunk', 
-                        content: content 
-                      })}\n\n`)
-                    );
-                    
-                    // Add a small delay to make streaming more visible
-                    await new Promise(resolve => setTimeout(resolve, 20));
-                  }
-                } catch {
-                  // Skip invalid JSON
-                }
-              }
-            }
-          }
-
-          // If no streaming content was received, try fallback
-          if (!fullResponse) {
-            fullResponse = 'I received your message but there was an issue with the streaming response. Please try again.';
-            controller.enqueue(
-              encoder.encode(`data: ${JSON.stringify({ 
-                type: 'chunk', 
-                content: fullResponse 
-              })}\n\n`)
-            );
-          }
-
-          // Save assistant message to database
-          const assistantMessage = {
-            role: 'assistant' as const,
-            content: fullResponse || 'Sorry, I could not generate a response.',
-            timestamp: new Date(),
-          };
-
-          chat.messages.push(assistantMessage);
-
-          // Update chat title if it's the first message
-          if (chat.messages.length === 2) {
-            const firstWords = message.trim().split(' ').slice(0, 6).join(' ');
-            chat.title = firstWords.length > 50 ? firstWords.substring(0, 47) + '...' : firstWords;
-          }
-
-          await chat.save();
-
-          // Send completion
-          controller.enqueue(
-            encoder.encode(`data: ${JSON.stringify({ 
-              type: 'complete',
-              assistantMessage,
-              chatTitle: chat.title
-            })}\n\n`)
-          );
-
-        } catch (error) {
-          console.error('Streaming error:', error);
-          
-          // Add error message
-          const errorMessage = {
-            role: 'assistant' as const,
-            content: 'Sorry, I encountered an error while processing your message. Please try again.',
-            timestamp: new Date(),
-          };
-
-          chat.messages.push(errorMessage);
-          await chat.save();
-
-          controller.enqueue(
-            encoder.encode(`data: ${JSON.stringify({ 
-              type: 'error',
-              message: errorMessage,
-              error: 'AI service temporarily unavailable'
-            })}\n\n`)
-          );
-        } finally {
-          controller.close();
-        }
-      }
+    let context: ContextWindow | null = null;
+    let citations: Citation[] = [];
+
+    /**
+     * Builds an assistant reply to the new user turn
+     * @param content - Reply text
+     * @param extra - Further message fields
+     */
+    const toAssistantMessage = (content: string, extra: { stopped?: boolean } = {}) => ({
+      _id: new Types.ObjectId(),
+      parentId: userMessage._id,
+      role: 'assistant' as const,
+      content,
+      timestamp: new Date(),
+      ...extra,
+      context: context ? {
+        includedMessages: context.includedMessages,
+        totalMessages: context.totalMessages,
+      } : undefined,
+      citations: citations.length > 0 ? citations : undefined,
     });
 
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
+    /**
+     * Appends a reply to the chat and makes it the end of the active branch
+     * @param reply - Assistant message
+     */
+    const saveReply = async (reply: IMessage) => {
+      chat.messages.push(reply);
+      chat.currentLeafId = reply._id;
+      await chat.save();
+    };
+
+    let autoTitled = false;
+    // Tracked apart from the document so a later save never writes a stale title
+    let chatTitle = chat.title;
+
+    return createGenerationStream(request, { chatId, userId }, {
+      startEvent: {
+        type: 'userMessage',
+        message: { ...userMessage, branch: getBranchInfo(chat.messages, userMessage) },
+      },
+
+      async prepare() {
+        // Vision models get the attached images themselves, not just their names
+        const images = canSendImages(provider, generationOptions.model)
+          ? await loadImageAttachments(files)
+          : [];
+        const path = getPathToMessage<IMessage>(chat.messages, userMessage._id);
+        // Long documents attached anywhere on the branch are searched instead of pasted in full
+        const retrieval = await retrieveForQuestion(
+          chat._id,
+          userId,
+          path.flatMap(msg => msg.files || []),
+          message.trim()
+        );
+        // Build AI context with file information (separate from displayed message)
+        const aiContextMessage = buildAttachmentContext(message.trim(), files, retrieval);
+        citations = retrieval.citations;
+        // Only the active branch leading to this turn is sent to the model
+        const history: LLMMessage[] = [
+          ...path.slice(0, -1).map(msg => ({
+            role: msg.role,
+            content: msg.content,
+          })),
+          // Use the AI context message for the last user message
+          {
+            role: 'user',
+            content: aiContextMessage,
+            images: images.length > 0 ? images : undefined,
+          },
+        ];
+        context = await fitToContextWindow(provider, systemPrompt, history, generationOptions);
+        return { provider, messages: context.messages, options: generationOptions };
+      },
+
+      async onComplete(content) {
+        const assistantMessage = toAssistantMessage(content);
+        const isFirstExchange = chat.messages.length === 1;
+        await saveReply(assistantMessage);
+
+        // Name the chat after its first exchange, starting with the first words,
+        // unless it was renamed while the reply was generating
+        if (isFirstExchange) {
+          const fallbackTitle = getFallbackTitle(message);
+          autoTitled = await replaceAutomaticTitle(chat, chatTitle, fallbackTitle);
+          chatTitle = autoTitled
+            ? fallbackTitle
+            : (await Chat.findById(chat._id).select('title'))?.title ?? chatTitle;
+        }
+
+        return {
+          assistantMessage,
+          context: assistantMessage.context,
+          citations,
+          chatTitle,
+        };
+      },
+
+      async onStopped(content) {
+        const stoppedMessage = content ? toAssistantMessage(content, { stopped: true }) : null;
+        if (stoppedMessage) {
+          await saveReply(stoppedMessage);
+        }
+        return { message: stoppedMessage };
+      },
+
+      async onError() {
+        const errorMessage = {
+          _id: new Types.ObjectId(),
+          parentId: userMessage._id,
+          role: 'assistant' as const,
+          content: 'Sorry, I encountered an error while processing your message. Please try again.',
+          timestamp: new Date(),
+        };
+        await saveReply(errorMessage);
+
+        return {
+          message: errorMessage,
+          error: 'AI service temporarily unavailable',
+        };
+      },
+
+      async afterComplete(send, streamId) {
+        if (!autoTitled) return;
+
+        // Replace the placeholder title with a model-written summary
+        const title = await generateChatTitle(provider, {
+          userMessage: message,
+          assistantMessage: chat.messages[chat.messages.length - 1].content,
+        }, generationOptions.model);
+
+        if (title !== chatTitle) {
+          if (!(await replaceAutomaticTitle(chat, chatTitle, title))) return;
+          chatTitle = title;
+          await StreamSession.updateOne({ streamId }, { $set: { 'result.chatTitle': title } });
+        }
+        send({ type: 'title', title });
       },
     });
 
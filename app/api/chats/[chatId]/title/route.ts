@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import connectDB from '@/lib/mongodb';
+import Chat, { IMessage } from '@/lib/models/Chat';
+import Project from '@/lib/models/Project';
+import { getPathToMessage, normalizeMessageTree } from '@/lib/chat/tree';
+import { replaceAutomaticTitle } from '@/lib/chat/title';
+import { generateChatTitle, getLLMProvider, resolveGenerationOptions } from '@/lib/llm';
+
+/**
+ * POST /api/chats/[chatId]/title
+ * Regenerates the chat title from the first exchange of the active branch
+ * Falls back to the first words of the first message if the model fails
+ * A rename made while the title was generated is kept and returned instead
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { chatId } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const chat = await Chat.findOne({ _id: chatId, userId, deletedAt: null });
+
+    if (!chat) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
+
+    normalizeMessageTree(chat);
+    const path = getPathToMessage<IMessage>(chat.messages, chat.currentLeafId);
+    const firstUserMessage = path.find(msg => msg.role === 'user');
+    const firstAssistantMessage = path.find(msg => msg.role === 'assistant');
+
+    if (!firstUserMessage) {
+      return NextResponse.json({ error: 'Chat has no messages to summarise' }, { status: 400 });
+    }
+
+    const project = chat.projectId ? await Project.findOne({ _id: chat.projectId, userId }) : null;
+    const title = await generateChatTitle(getLLMProvider(), {
+      userMessage: firstUserMessage.content,
+      assistantMessage: firstAssistantMessage?.content || '',
+    }, resolveGenerationOptions(chat.settings, project?.defaultModel).model);
+
+    // Only the title is written, skipping the save hook, so the chat keeps its place in the list
+    if (await replaceAutomaticTitle(chat, chat.title, title)) {
+      return NextResponse.json({ title });
+    }
+
+    // Renamed, deleted or trashed while the title was generated
+    const current = await Chat.findOne({ _id: chatId, userId, deletedAt: null }).select('title');
+
+    if (!current) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ title: current.title });
+  } catch (error) {
+    console.error('Error regenerating chat title:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
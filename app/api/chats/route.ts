@@ -1,14 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
+import { Types } from 'mongoose';
 import connectDB from '@/lib/mongodb';
 import Chat from '@/lib/models/Chat';
+import Project from '@/lib/models/Project';
+import { ChatListView } from '@/lib/types/chat';
+import {
+  CHAT_PAGE_MAX_SIZE,
+  CHAT_PAGE_SIZE,
+  decodeChatCursor,
+  encodeChatCursor,
+} from '@/lib/chat/pagination';
 
 /**
  * GET /api/chats
- * Fetches all chat conversations for the authenticated user
- * Returns up to 50 most recent chats sorted by update time
+ * Fetches a page of chat conversations for the authenticated user, newest first
+ * Pass `nextCursor` back as `?cursor=` for the next page; `?view=archived` or `?view=trash`
+ * lists archived or deleted chats instead of active ones
+ * `?projectId=` limits the unpinned chats to one project, or to chats outside projects with
+ * `none`; pinned chats of every project only come with the first page of a list that is not
+ * limited to one project
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
     const { userId } = await auth();
     
@@ -16,14 +29,64 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const searchParams = request.nextUrl.searchParams;
+    const viewParam = searchParams.get('view');
+    const view: ChatListView = viewParam === 'archived' || viewParam === 'trash' ? viewParam : 'active';
+    const cursorParam = searchParams.get('cursor');
+    const cursor = cursorParam ? decodeChatCursor(cursorParam) : null;
+    const projectParam = searchParams.get('projectId');
+    const inProject = !!projectParam && projectParam !== 'none';
+    const limit = Math.min(
+      Math.max(Number(searchParams.get('limit')) || CHAT_PAGE_SIZE, 1),
+      CHAT_PAGE_MAX_SIZE
+    );
+
+    if (cursorParam && !cursor) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    }
+
+    if (inProject && !Types.ObjectId.isValid(projectParam)) {
+      return NextResponse.json({ error: 'Invalid project id' }, { status: 400 });
+    }
+
     await connectDB();
 
-    const chats = await Chat.find({ userId })
-      .select('_id title createdAt updatedAt')
-      .sort({ updatedAt: -1 })
-      .limit(50);
+    const fields = '_id title projectId pinned archived deletedAt createdAt updatedAt';
+    // Chats created before archiving existed have no flag and count as active
+    const filter = view === 'trash'
+      ? { userId, deletedAt: { $ne: null } }
+      : { userId, deletedAt: null, archived: view === 'archived' ? true : { $ne: true } };
+
+    // Pinned chats come with the first page so they are never out of reach
+    const pinnedChats = view !== 'active' || cursor || inProject
+      ? []
+      : await Chat.find({ ...filter, pinned: true })
+        .select(fields)
+        .sort({ updatedAt: -1, _id: -1 });
+
+    // One extra chat tells whether another page exists
+    const page = await Chat.find({
+      ...filter,
+      ...(view === 'active' && { pinned: { $ne: true } }),
+      ...(projectParam && { projectId: inProject ? projectParam : null }),
+      ...(cursor && {
+        $or: [
+          { updatedAt: { $lt: cursor.updatedAt } },
+          { updatedAt: cursor.updatedAt, _id: { $lt: cursor.id } },
+        ],
+      }),
+    })
+      .select(fields)
+      .sort({ updatedAt: -1, _id: -1 })
+      .limit(limit + 1);
 
-    return NextResponse.json({ chats });
+    const hasMore = page.length > limit;
+    const chats = page.slice(0, limit);
+
+    return NextResponse.json({
+      chats: [...pinnedChats, ...chats],
+      nextCursor: hasMore ? encodeChatCursor(chats[chats.length - 1]) : null,
+    });
   } catch (error) {
     console.error('Error fetching chats:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -33,7 +96,7 @@ export async function GET() {
 /**
  * POST /api/chats
  * Creates a new chat conversation for the authenticated user
- * Requires a title in the request body
+ * Requires a title in the request body; `projectId` files it under a project
  */
 export async function POST(request: NextRequest) {
   try {
@@ -43,17 +106,29 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const { title } = await request.json();
+    const { title, projectId } = await request.json();
 
     if (!title) {
       return NextResponse.json({ error: 'Title is required' }, { status: 400 });
     }
 
+    if (projectId !== undefined && projectId !== null && typeof projectId !== 'string') {
+      return NextResponse.json({ error: 'Project id must be a string or null' }, { status: 400 });
+    }
+    if (projectId && !Types.ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project id' }, { status: 400 });
+    }
+
     await connectDB();
 
+    if (projectId && !(await Project.exists({ _id: projectId, userId }))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
     const chat = new Chat({
       userId,
       title,
+      projectId: projectId || null,
       messages: [],
     });
 
@@ -63,6 +138,7 @@ export async function POST(request: NextRequest) {
       chat: {
         _id: chat._id,
         title: chat.title,
+        projectId: chat.projectId,
         createdAt: chat.createdAt,
         updatedAt: chat.updatedAt,
       }
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { purgeExpiredChats } from '@/lib/trash';
+
+/**
+ * GET /api/cron/purge-trash
+ * Scheduled job that permanently deletes chats past the trash retention period
+ * Authenticated with the CRON_SECRET bearer token instead of a user session
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const { purged, failed } = await purgeExpiredChats();
+    console.log(`🗑️ Purged ${purged} chat(s) from the trash, ${failed} kept for retry`);
+
+    return NextResponse.json({ purged, failed });
+  } catch (error) {
+    console.error('Error purging trash:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { isTrustedFileUrl, readFileFromUrl } from '@/lib/files/contents';
+import { DOCUMENT_MAX_BYTES } from '@/lib/files/limits';
+import { extractPdf } from '@/lib/files/pdf';
+import { OCR_MIN_CONFIDENCE, recognizeImage, recognizePdf } from '@/lib/files/ocr';
+import { OcrResponse, UploadedFile } from '@/lib/types/chat';
+
+/**
+ * POST /api/files/ocr
+ * Recognizes the text of an image or scanned PDF so it can be reviewed before sending
+ * PDFs with a text layer need no OCR and return no text
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { file }: { file?: UploadedFile } = await request.json();
+
+    if (!file?.cdnUrl) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    const isImage = file.mimeType.startsWith('image/');
+    const isPdf = file.mimeType === 'application/pdf';
+    if (!isImage && !isPdf) {
+      return NextResponse.json({ error: 'Only images and PDFs can be recognized' }, { status: 400 });
+    }
+    if (!isTrustedFileUrl(file.cdnUrl)) {
+      return NextResponse.json({ error: 'Invalid file URL' }, { status: 400 });
+    }
+
+    const contents = await readFileFromUrl(file.cdnUrl, DOCUMENT_MAX_BYTES);
+    if (!contents) {
+      return NextResponse.json({ error: 'File is too large to recognize' }, { status: 413 });
+    }
+    let result: OcrResponse = { text: null, confidence: 0 };
+
+    if (isImage) {
+      result = await recognizeImage(contents);
+    } else if (!(await extractPdf(new Uint8Array(contents))).hasText) {
+      result = await recognizePdf(new Uint8Array(contents));
+    }
+
+    // Low-confidence text is noise from photos and drawings rather than writing
+    return NextResponse.json({
+      text: result.text && result.confidence >= OCR_MIN_CONFIDENCE ? result.text : null,
+      confidence: result.confidence,
+    });
+  } catch (error) {
+    console.error('Error recognizing file text:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
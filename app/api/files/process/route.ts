@@ -1,29 +1,213 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
 import { uploadToCloudinary } from '@/lib/cloudinary';
+import { isTrustedFileUrl, readFileFromUrl } from '@/lib/files/contents';
+import { clampDocumentText, DOCUMENT_MAX_BYTES } from '@/lib/files/limits';
+import { extractPdf } from '@/lib/files/pdf';
+import { signAttachment } from '@/lib/files/signing';
+import { OCR_MIN_CONFIDENCE, OcrResult, recognizeImage, recognizePdf } from '@/lib/files/ocr';
+import { extractDocx, extractPptx } from '@/lib/files/office';
+import { summarizeCsv, summarizeXlsx } from '@/lib/files/spreadsheet';
+import { Attachment, AttachmentMetadata, UploadedFile } from '@/lib/types/chat';
 
-export interface UploadedFile {
-  uuid: string;
-  name: string;
-  size: number;
-  mimeType: string;
-  cdnUrl: string;
-  originalUrl: string;
-}
+// Files without remote storage are kept inline only up to this size
+const INLINE_ATTACHMENT_MAX_BYTES = 256 * 1024;
+
+// Reported for files past DOCUMENT_MAX_BYTES
+const TOO_LARGE_ERROR = `File is larger than ${DOCUMENT_MAX_BYTES / (1024 * 1024)} MB, its contents were not extracted`;
+
+type DocumentKind = 'pdf' | 'docx' | 'pptx' | 'xlsx' | 'csv';
+
+// MIME types and file extensions of the documents with a dedicated extractor
+const DOCUMENT_TYPES: Record<DocumentKind, { mimeTypes: string[]; label: string }> = {
+  pdf: { mimeTypes: ['application/pdf'], label: 'PDF Document' },
+  docx: {
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    label: 'Word Document',
+  },
+  pptx: {
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+    label: 'Presentation',
+  },
+  xlsx: {
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+    label: 'Spreadsheet',
+  },
+  csv: { mimeTypes: ['text/csv', 'application/csv'], label: 'Spreadsheet' },
+};
 
-export interface ProcessedFile extends UploadedFile {
-  cloudinaryUrl?: string;
-  cloudinaryPublicId?: string;
-  textContent?: string;
+/**
+ * ExtractedContent interface
+ * Text handed to the model for a file, with any document details found
+ */
+interface ExtractedContent {
+  textContent: string;
+  metadata?: AttachmentMetadata;
   error?: string;
 }
 
+/**
+ * Finds the extractor for a file by MIME type, or by extension when the
+ * browser reported a generic type
+ * @param file - Uploaded file
+ */
+function getDocumentKind(file: UploadedFile): DocumentKind | null {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  const kinds = Object.keys(DOCUMENT_TYPES) as DocumentKind[];
+
+  return kinds.find(kind => DOCUMENT_TYPES[kind].mimeTypes.includes(file.mimeType))
+    ?? kinds.find(kind => kind === extension)
+    ?? null;
+}
+
+/**
+ * Finds the text of an image or scan
+ * Text reviewed in the chat input wins; otherwise OCR runs here and
+ * low-confidence results are dropped as noise
+ * @param file - Uploaded file
+ * @param recognize - Runs OCR on the file
+ */
+async function getOcrText(file: UploadedFile, recognize: () => Promise<OcrResult>): Promise<OcrResult | null> {
+  if (file.ocrText !== undefined) {
+    const text = clampDocumentText(file.ocrText.trim()).text;
+    return text ? { text, confidence: file.ocrConfidence ?? 0 } : null;
+  }
+
+  const result = await recognize();
+  return result.text && result.confidence >= OCR_MIN_CONFIDENCE ? result : null;
+}
+
+/**
+ * Extracts a document with its dedicated extractor
+ * Spreadsheets are summarized rather than inlined cell by cell
+ * @param file - Uploaded file
+ * @param kind - Document kind
+ */
+async function extractDocument(file: UploadedFile, kind: DocumentKind): Promise<ExtractedContent> {
+  const placeholder = `[${DOCUMENT_TYPES[kind].label}: ${file.name}]`;
+  const contents = await readFileFromUrl(file.cdnUrl, DOCUMENT_MAX_BYTES);
+  if (!contents) {
+    return { textContent: placeholder, error: TOO_LARGE_ERROR };
+  }
+
+  let text: string;
+  let metadata: AttachmentMetadata;
+
+  switch (kind) {
+    case 'pdf': {
+      const pdf = await extractPdf(new Uint8Array(contents));
+      metadata = { pageCount: pdf.pageCount, title: pdf.title, author: pdf.author, truncated: pdf.truncated };
+      if (pdf.hasText) {
+        text = pdf.text;
+        break;
+      }
+
+      // Scanned PDFs have no text layer, only page images
+      const ocr = await getOcrText(file, () => recognizePdf(new Uint8Array(contents)));
+      text = ocr?.text || '';
+      metadata.ocrConfidence = ocr?.confidence;
+      metadata.truncated = metadata.truncated || ocr?.truncated;
+      break;
+    }
+    case 'docx': {
+      const document = await extractDocx(contents);
+      text = document.text;
+      metadata = { truncated: document.truncated };
+      break;
+    }
+    case 'pptx': {
+      const presentation = await extractPptx(contents);
+      text = presentation.text;
+      metadata = { slideCount: presentation.slideCount, truncated: presentation.truncated };
+      break;
+    }
+    case 'xlsx':
+    case 'csv': {
+      const spreadsheet = kind === 'csv'
+        ? summarizeCsv(contents.toString('utf-8'), file.name)
+        : await summarizeXlsx(contents);
+      text = spreadsheet.text;
+      metadata = {
+        sheetCount: spreadsheet.sheetCount,
+        rowCount: spreadsheet.rowCount,
+        truncated: spreadsheet.truncated,
+      };
+      break;
+    }
+  }
+
+  metadata.truncated = metadata.truncated || undefined;
+  if (!text) {
+    return { textContent: placeholder, metadata, error: 'No text found in document' };
+  }
+  return { textContent: text, metadata };
+}
+
+/**
+ * Extracts the text handed to the model for a file
+ * Files that cannot be read get a bracketed placeholder describing them
+ * @param file - Uploaded file
+ */
+async function extractTextContent(file: UploadedFile): Promise<ExtractedContent> {
+  const documentKind = getDocumentKind(file);
+  if (documentKind) {
+    return extractDocument(file, documentKind);
+  }
+
+  if (file.mimeType.startsWith('text/') || file.mimeType.includes('json')) {
+    const contents = await readFileFromUrl(file.cdnUrl, DOCUMENT_MAX_BYTES);
+    if (!contents) {
+      return { textContent: `[File: ${file.name} - ${file.mimeType}]`, error: TOO_LARGE_ERROR };
+    }
+    const { text, truncated } = clampDocumentText(contents.toString('utf-8'));
+    return { textContent: text, metadata: truncated ? { truncated } : undefined };
+  }
+
+  if (file.mimeType.startsWith('image/')) {
+    const placeholder = `[Image: ${file.name}]`;
+
+    try {
+      const ocr = await getOcrText(file, async () => {
+        const contents = await readFileFromUrl(file.cdnUrl, DOCUMENT_MAX_BYTES);
+        // Images too large to recognize keep their placeholder
+        return contents ? recognizeImage(contents) : { text: '', confidence: 0 };
+      });
+      return ocr
+        ? { textContent: ocr.text, metadata: { ocrConfidence: ocr.confidence } }
+        : { textContent: placeholder };
+    } catch (error) {
+      console.error('Error recognizing image text:', error);
+      return { textContent: placeholder, error: 'Failed to recognize text in image' };
+    }
+  }
+  return { textContent: `[File: ${file.name} - ${file.mimeType}]` };
+}
+
+/**
+ * Chooses where an attachment is served from when Cloudinary is unavailable
+ * Remote URLs are kept; data URLs only when small enough to store on the message
+ * @param file - Uploaded file
+ */
+function getFallbackUrl(file: UploadedFile): string | undefined {
+  if (!file.cdnUrl.startsWith('data:')) return file.cdnUrl;
+  return file.size <= INLINE_ATTACHMENT_MAX_BYTES ? file.cdnUrl : undefined;
+}
+
 /**
  * POST /api/files/process
  * Processes uploaded files for chat attachments
- * Extracts text content and uploads images to Cloudinary
+ * Extracts text content from text files, PDFs and office documents, recognizes text in
+ * images and scans, and uploads files to Cloudinary so messages store URLs, not file data
+ * Uploaded files are signed for the user so the stream route can trust their `publicId`
  */
 export async function POST(request: NextRequest) {
   try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const body = await request.json();
     const { files }: { files: UploadedFile[] } = body;
 
@@ -31,77 +215,44 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No files provided' }, { status: 400 });
     }
 
-    const processedFiles: ProcessedFile[] = [];
+    const processedFiles: Attachment[] = [];
 
     for (const file of files) {
+      const attachment: Attachment = {
+        uuid: file.uuid,
+        name: file.name,
+        size: file.size,
+        mimeType: file.mimeType,
+      };
+
+      // Files are only read from inline data or our own storage
+      if (!file.cdnUrl || !isTrustedFileUrl(file.cdnUrl)) {
+        attachment.error = 'Invalid file URL';
+        processedFiles.push(attachment);
+        continue;
+      }
+
       try {
-        const processedFile: ProcessedFile = {
-          ...file,
-        };
-
-        // Extract text content for different file types
-        if (file.cdnUrl.startsWith('data:')) {
-          // Handle data URLs
-          const [, base64Data] = file.cdnUrl.split(',');
-          
-          if (file.mimeType.startsWith('text/') || file.mimeType.includes('json')) {
-            try {
-              // Decode base64 text content
-              const textContent = Buffer.from(base64Data, 'base64').toString('utf-8');
-              processedFile.textContent = textContent;
-            } catch (error) {
-              console.error('Error extracting text content:', error);
-              processedFile.textContent = `[Text file: ${file.name}]`;
-            }
-          } else if (file.mimeType.startsWith('image/')) {
-            // For images, we'll pass the data URL directly to the AI
-            processedFile.textContent = `[Image: ${file.name}]`;
-            // Keep the data URL for image display
-            processedFile.cloudinaryUrl = file.cdnUrl;
-          } else if (file.mimeType === 'application/pdf') {
-            // PDF text extraction would require additional libraries
-            processedFile.textContent = `[PDF Document: ${file.name}]`;
-          } else {
-            processedFile.textContent = `[File: ${file.name} - ${file.mimeType}]`;
-          }
-        } else {
-          // Handle regular URLs if needed
-          try {
-            // Upload to Cloudinary if it's a regular URL
-            const cloudinaryResult = await uploadToCloudinary(file);
-            processedFile.cloudinaryUrl = cloudinaryResult.secure_url;
-            processedFile.cloudinaryPublicId = cloudinaryResult.public_id;
-          } catch (error) {
-            console.error('Cloudinary upload skipped:', error);
-            processedFile.cloudinaryUrl = file.cdnUrl;
-          }
-          
-          if (file.mimeType.startsWith('text/') || file.mimeType.includes('json')) {
-            try {
-              const response = await fetch(file.cdnUrl);
-              const textContent = await response.text();
-              processedFile.textContent = textContent;
-            } catch (error) {
-              console.error('Error extracting text content:', error);
-              processedFile.error = 'Failed to extract text content';
-            }
-          } else if (file.mimeType.startsWith('image/')) {
-            processedFile.textContent = `[Image: ${file.name}]`;
-          } else if (file.mimeType === 'application/pdf') {
-            processedFile.textContent = `[PDF Document: ${file.name}]`;
-          } else {
-            processedFile.textContent = `[File: ${file.name} - ${file.mimeType}]`;
-          }
-        }
-
-        processedFiles.push(processedFile);
+        const extracted = await extractTextContent(file);
+        attachment.textContent = extracted.textContent;
+        attachment.metadata = extracted.metadata;
+        attachment.error = extracted.error;
       } catch (error) {
-        console.error(`Error processing file ${file.name}:`, error);
-        processedFiles.push({
-          ...file,
-          error: 'Failed to process file',
-        });
+        console.error('Error extracting text content:', error);
+        attachment.error = 'Failed to extract text content';
       }
+
+      try {
+        const cloudinaryResult = await uploadToCloudinary(file);
+        attachment.url = cloudinaryResult.secure_url;
+        attachment.publicId = cloudinaryResult.public_id;
+        signAttachment(userId, attachment);
+      } catch (error) {
+        console.error('Cloudinary upload skipped:', error);
+        attachment.url = getFallbackUrl(file);
+      }
+
+      processedFiles.push(attachment);
     }
 
     return NextResponse.json({ processedFiles });
@@ -112,4 +263,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
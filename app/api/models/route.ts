@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getLLMProvider, DEFAULT_GENERATION } from '@/lib/llm';
+
+/**
+ * GET /api/models
+ * Lists the models offered by the configured LLM provider
+ * Also returns the defaults used when a chat has no settings of its own
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const provider = getLLMProvider();
+    const models = await provider.listModels();
+
+    return NextResponse.json({
+      provider: provider.name,
+      models,
+      defaults: {
+        model: provider.defaultModel,
+        ...DEFAULT_GENERATION,
+      },
+    });
+  } catch (error) {
+    console.error('Error listing models:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
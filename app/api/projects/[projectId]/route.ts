@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import connectDB from '@/lib/mongodb';
+import Chat from '@/lib/models/Chat';
+import Project from '@/lib/models/Project';
+import { validateProjectInput } from '@/lib/chat/projects';
+
+/**
+ * GET /api/projects/[projectId]
+ * Fetches a single project
+ * Verifies ownership before returning it
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { projectId } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const project = await Project.findOne({ _id: projectId, userId });
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ project });
+  } catch (error) {
+    console.error('Error fetching project:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/projects/[projectId]
+ * Updates a project's name, color, instructions or default model
+ * Only the fields present in the body are changed
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { projectId } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { project: updates, error } = validateProjectInput(await request.json(), { partial: true });
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const project = await Project.findOneAndUpdate(
+      { _id: projectId, userId },
+      { $set: { ...updates, updatedAt: new Date() } },
+      { new: true }
+    );
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ project });
+  } catch (error) {
+    console.error('Error updating project:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/projects/[projectId]
+ * Deletes a project
+ * Its chats are kept and moved back to the main chat list
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { projectId } = await params;
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const deletedProject = await Project.findOneAndDelete({ _id: projectId, userId });
+
+    if (!deletedProject) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    await Chat.updateMany({ userId, projectId: deletedProject._id }, { $set: { projectId: null } });
+
+    return NextResponse.json({ message: 'Project deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting project:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import connectDB from '@/lib/mongodb';
+import Project from '@/lib/models/Project';
+import { validateProjectInput } from '@/lib/chat/projects';
+
+/**
+ * GET /api/projects
+ * Fetches all projects of the authenticated user
+ * Sorted by name for the sidebar tree
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const projects = await Project.find({ userId })
+      .select('_id name color customInstructions defaultModel createdAt updatedAt')
+      .sort({ name: 1 });
+
+    return NextResponse.json({ projects });
+  } catch (error) {
+    console.error('Error fetching projects:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/projects
+ * Creates a project for the authenticated user
+ * Requires a name; color, instructions and default model are optional
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { project: input, error } = validateProjectInput(await request.json());
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const project = new Project({ userId, ...input });
+    await project.save();
+
+    return NextResponse.json({ project }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating project:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
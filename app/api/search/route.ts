@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import connectDB from '@/lib/mongodb';
+import Chat, { IChat } from '@/lib/models/Chat';
+import { buildSnippet, findHighlights, getSearchTerms, SEARCH_QUERY_MAX_LENGTH } from '@/lib/chat/search';
+import { SearchMatch, SearchResult } from '@/lib/types/chat';
+
+const SEARCH_RESULT_LIMIT = 20;
+const MATCHES_PER_CHAT = 3;
+
+/**
+ * GET /api/search?q=
+ * Searches the authenticated user's chat titles and messages using the text index
+ * Returns the best matching chats with highlighted snippets of matching messages
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const query = request.nextUrl.searchParams.get('q')?.trim() || '';
+
+    if (!query) {
+      return NextResponse.json({ error: 'Query is required' }, { status: 400 });
+    }
+
+    if (query.length > SEARCH_QUERY_MAX_LENGTH) {
+      return NextResponse.json(
+        { error: `Query must be at most ${SEARCH_QUERY_MAX_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const chats = await Chat.find(
+      { userId, deletedAt: null, $text: { $search: query } },
+      { score: { $meta: 'textScore' } }
+    )
+      .select('_id title archived updatedAt messages._id messages.role messages.content')
+      .sort({ score: { $meta: 'textScore' } })
+      .limit(SEARCH_RESULT_LIMIT)
+      .lean<IChat[]>();
+
+    const terms = getSearchTerms(query);
+
+    const results: SearchResult[] = chats.map((chat) => {
+      const matches: SearchMatch[] = [];
+
+      // Messages of every branch are searched, not only the active one
+      for (const message of chat.messages) {
+        if (matches.length >= MATCHES_PER_CHAT) break;
+
+        const snippet = buildSnippet(message.content, terms);
+        if (snippet) {
+          matches.push({
+            messageId: String(message._id),
+            role: message.role,
+            ...snippet,
+          });
+        }
+      }
+
+      return {
+        chatId: String(chat._id),
+        title: chat.title,
+        titleHighlights: findHighlights(chat.title, terms),
+        archived: chat.archived,
+        updatedAt: chat.updatedAt.toISOString(),
+        matches,
+      };
+    });
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error('Error searching chats:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,82 +1,37 @@
 import { NextResponse } from 'next/server';
+import { getLLMProvider } from '@/lib/llm';
 
+/**
+ * GET /api/test-perplexity
+ * Smoke test for the configured LLM provider
+ * Streams a short completion and reports how it arrived
+ */
 export async function GET() {
   try {
-    console.log('🧪 Testing Perplexity streaming...');
-    
-    const response = await fetch('https://api.perplexity.ai/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'sonar',
-        messages: [
-          {
-            role: 'user',
-            content: 'Say hello world',
-          }
-        ],
-        max_tokens: 50,
-        temperature: 0.7,
-        stream: true,
-      }),
-    });
+    const provider = getLLMProvider();
+    console.log(`🧪 Testing ${provider.name} streaming...`);
 
-    console.log('📡 Response status:', response.status);
-    console.log('📡 Response headers:', Object.fromEntries(response.headers.entries()));
+    const chunks: string[] = [];
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.log('❌ Error response:', errorText);
-      return NextResponse.json({ error: errorText }, { status: response.status });
-    }
-
-    // Check if it's a streaming response
-    const contentType = response.headers.get('content-type');
-    console.log('📡 Content-Type:', contentType);
-
-    if (contentType?.includes('text/event-stream') || contentType?.includes('text/plain')) {
-      console.log('🎯 Detected streaming response!');
-      
-      const reader = response.body?.getReader();
-      if (reader) {
-        const chunks = [];
-        let fullText = '';
-        
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          
-          const chunk = new TextDecoder().decode(value);
-          chunks.push(chunk);
-          fullText += chunk;
-          
-          console.log('📦 Chunk:', chunk);
-        }
-        
-        return NextResponse.json({
-          streaming: true,
-          contentType,
-          chunks: chunks.length,
-          fullResponse: fullText,
-        });
-      }
-    } else {
-      console.log('📄 Non-streaming response detected');
-      const jsonResponse = await response.json();
-      return NextResponse.json({
-        streaming: false,
-        contentType,
-        response: jsonResponse,
-      });
+    for await (const chunk of provider.stream(
+      [{ role: 'user', content: 'Say hello world' }],
+      { maxTokens: 50 }
+    )) {
+      chunks.push(chunk);
+      console.log('📦 Chunk:', chunk);
     }
 
+    return NextResponse.json({
+      provider: provider.name,
+      model: provider.defaultModel,
+      streaming: true,
+      chunks: chunks.length,
+      fullResponse: chunks.join(''),
+    });
   } catch (error) {
     console.error('🔥 Test error:', error);
-    return NextResponse.json({ 
-      error: error instanceof Error ? error.message : 'Unknown error' 
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import connectDB from '@/lib/mongodb';
+import UserPreferences from '@/lib/models/UserPreferences';
+import { CUSTOM_INSTRUCTIONS_MAX_LENGTH } from '@/lib/llm';
+
+/**
+ * GET /api/user/preferences
+ * Fetches the authenticated user's account-wide preferences
+ * Returns empty defaults when nothing has been saved yet
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const preferences = await UserPreferences.findOne({ userId });
+
+    return NextResponse.json({
+      preferences: {
+        customInstructions: preferences?.customInstructions || '',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching preferences:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/user/preferences
+ * Saves the authenticated user's custom instructions
+ * Creates the preferences document on first save
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { customInstructions } = await request.json();
+
+    if (typeof customInstructions !== 'string') {
+      return NextResponse.json({ error: 'Custom instructions must be a string' }, { status: 400 });
+    }
+
+    if (customInstructions.length > CUSTOM_INSTRUCTIONS_MAX_LENGTH) {
+      return NextResponse.json(
+        { error: `Custom instructions must be at most ${CUSTOM_INSTRUCTIONS_MAX_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const preferences = await UserPreferences.findOneAndUpdate(
+      { userId },
+      { $set: { customInstructions: customInstructions.trim(), updatedAt: new Date() } },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+
+    return NextResponse.json({
+      preferences: {
+        customInstructions: preferences.customInstructions,
+      },
+    });
+  } catch (error) {
+    console.error('Error saving preferences:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
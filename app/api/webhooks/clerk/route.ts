@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyWebhook } from '@clerk/nextjs/webhooks';
+import connectDB from '@/lib/mongodb';
+import { purgeUserData, syncUser } from '@/lib/users';
+
+/**
+ * POST /api/webhooks/clerk
+ * Receives user lifecycle events from Clerk, signed with CLERK_WEBHOOK_SIGNING_SECRET
+ * Deleting a user purges their chats, files and settings; a non-2xx response makes Clerk retry
+ */
+export async function POST(request: NextRequest) {
+  let event;
+  try {
+    event = await verifyWebhook(request);
+  } catch (error) {
+    console.error('Clerk webhook verification failed:', error);
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 400 });
+  }
+
+  try {
+    await connectDB();
+
+    switch (event.type) {
+      case 'user.created':
+      case 'user.updated': {
+        const applied = await syncUser(event.data);
+        console.log(`👤 ${event.type} for ${event.data.id}${applied ? '' : ' ignored as stale'}`);
+        break;
+      }
+
+      case 'user.deleted': {
+        if (!event.data.id) break;
+
+        const { purged, failed } = await purgeUserData(event.data.id);
+        console.log(`🗑️ Purged ${purged} chat(s) of deleted user ${event.data.id}, ${failed} kept for retry`);
+
+        if (failed > 0) {
+          return NextResponse.json({ error: 'Some attachments could not be deleted' }, { status: 502 });
+        }
+        break;
+      }
+    }
+
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    console.error('Error handling Clerk webhook:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,10 +1,11 @@
 "use client";
 
-import { useEffect } from "react";
-import { useParams } from "next/navigation";
+import { useEffect, useRef, useState } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
 import Sidebar from "@/components/chat/Sidebar";
 import ChatInput from "@/components/chat/ChatInput";
 import MessageList from "@/components/chat/MessageList";
+import ChatSettingsMenu from "@/components/chat/ChatSettingsMenu";
 import { Button } from "@/components/ui/button";
 import { useChat } from "@/lib/hooks/useChat";
 import { Sparkles, Menu } from "lucide-react";
@@ -19,10 +20,43 @@ import { useSidebar } from "@/lib/contexts/SidebarContext";
 export default function ChatPage() {
   const params = useParams();
   const chatId = params.chatId as string;
-  const { chat, loading, error, sending, sendMessage, editMessage } =
-    useChat(chatId);
+  const router = useRouter();
+  // Message to jump to, set by search results
+  const targetMessageId = useSearchParams().get("message");
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const handledTargetRef = useRef<string | null>(null);
+  const {
+    chat,
+    loading,
+    error,
+    sending,
+    sendMessage,
+    stopGeneration,
+    editMessage,
+    switchBranch,
+    regenerateResponse,
+    selectAlternative,
+    updateSettings,
+  } = useChat(chatId);
   const { toggle } = useSidebar();
 
+  useEffect(() => {
+    if (!targetMessageId) {
+      handledTargetRef.current = null;
+      return;
+    }
+    // Wait until this chat, not the previously open one, has loaded
+    if (chat?._id !== chatId || handledTargetRef.current === targetMessageId) return;
+    handledTargetRef.current = targetMessageId;
+
+    // Matches can be on another branch; switching loads the branch containing them
+    if (!chat.messages.some(message => message._id === targetMessageId)) {
+      switchBranch(targetMessageId);
+    }
+    setHighlightedMessageId(targetMessageId);
+    router.replace(`/chat/${chatId}`, { scroll: false });
+  }, [chat, chatId, targetMessageId, switchBranch, router]);
+
   useEffect(() => {
     // Check for initial message in sessionStorage
     if (chatId && chat && chat.messages.length === 0) {
@@ -109,16 +143,23 @@ export default function ChatPage() {
           {/* Header */}
           <header className="sticky top-0 z-10 bg-background/95 backdrop-blur-sm border-b border-border/50 px-3 sm:px-4 py-3">
             <div className="flex items-center justify-between w-full">
-              <Button
-                onClick={toggle}
-                variant="ghost"
-                size="icon"
-                className="rounded-lg hover:bg-accent transition-colors md:hidden"
-                title="Toggle sidebar"
-              >
-                <Menu className="h-5 w-5" />
-              </Button>
-              <div className="flex items-center gap-2 mr-4 md:ml-auto">
+              <div className="flex items-center gap-1">
+                <Button
+                  onClick={toggle}
+                  variant="ghost"
+                  size="icon"
+                  className="rounded-lg hover:bg-accent transition-colors md:hidden"
+                  title="Toggle sidebar"
+                >
+                  <Menu className="h-5 w-5" />
+                </Button>
+                <ChatSettingsMenu
+                  settings={chat?.settings}
+                  onSave={updateSettings}
+                  disabled={sending}
+                />
+              </div>
+              <div className="flex items-center gap-2 mr-4">
                 <ThemeToggle />
                 <Button
                   variant="outline"
@@ -136,17 +177,11 @@ export default function ChatPage() {
             messages={chat?.messages || []}
             loading={sending}
             onEditMessage={editMessage}
-            onRegenerateResponse={() => {
-              if (chat?.messages && chat.messages.length > 0) {
-                const lastUserMessage = [...chat.messages]
-                  .reverse()
-                  .find((m) => m.role === "user");
-                if (lastUserMessage) {
-                  sendMessage(lastUserMessage.content, undefined, true);
-                }
-              }
-            }}
+            onSwitchBranch={switchBranch}
+            onRegenerateResponse={regenerateResponse}
+            onSelectAlternative={selectAlternative}
             canEdit={!sending}
+            highlightedMessageId={highlightedMessageId}
           />
 
           {/* Chat Input */}
@@ -154,10 +189,13 @@ export default function ChatPage() {
             <div className="flex justify-center">
               <ChatInput
                 onSendMessage={async (message: string, files?: { uuid: string; name: string; size: number; mimeType: string; cdnUrl: string; originalUrl: string }[]) => {
+                  setHighlightedMessageId(null);
                   await sendMessage(message, files);
                 }}
                 currentChatId={chatId}
                 disabled={sending}
+                isGenerating={sending}
+                onStop={stopGeneration}
               />
             </div>
           </div>
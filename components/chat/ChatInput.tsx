@@ -1,24 +1,19 @@
 'use client';
 
 import { useState, useRef } from 'react';
-import { Mic, SendHorizontal, Plus, Loader2, FileText, Image as ImageIcon, X } from "lucide-react";
+import { Mic, SendHorizontal, Plus, Loader2, FileText, Image as ImageIcon, X, Square, ScanText } from "lucide-react";
 import { useRouter } from 'next/navigation';
 import { useChats } from '@/lib/hooks/useChat';
-
-interface UploadedFile {
-  uuid: string;
-  name: string;
-  size: number;
-  mimeType: string;
-  cdnUrl: string;
-  originalUrl: string;
-}
+import { OcrResponse, UploadedFile } from '@/lib/types/chat';
+import { getFallbackTitle } from '@/lib/chat/title';
 
 interface ChatInputProps {
   placeholder?: string;
   onSendMessage?: (message: string, files?: UploadedFile[]) => Promise<void>;
   currentChatId?: string | null;
   disabled?: boolean;
+  isGenerating?: boolean;
+  onStop?: () => void;
 }
 
 /**
@@ -31,11 +26,15 @@ export default function ChatInput({
   onSendMessage,
   currentChatId,
   disabled = false,
+  isGenerating = false,
+  onStop,
 }: ChatInputProps) {
   const [message, setMessage] = useState('');
   const [sending, setSending] = useState(false);
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [isUploading, setIsUploading] = useState(false);
+  const [recognizingIds, setRecognizingIds] = useState<string[]>([]);
+  const [reviewingFileId, setReviewingFileId] = useState<string | null>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const router = useRouter();
@@ -60,7 +59,7 @@ export default function ChatInput({
         await onSendMessage(messageText || 'Uploaded files', filesToSend);
       } else {
         // Create new chat and redirect with message in URL state
-        const chatTitle = messageText ? messageText.split(' ').slice(0, 6).join(' ') : 'File Upload Chat';
+        const chatTitle = messageText ? getFallbackTitle(messageText) : 'File Upload Chat';
         const newChat = await createChat(chatTitle);
         
         // Store the initial message in sessionStorage to be picked up by the chat page
@@ -151,6 +150,10 @@ export default function ChatInput({
       
       setUploadedFiles(prev => [...prev, ...newUploadedFiles]);
       console.log('Files uploaded:', newUploadedFiles);
+
+      newUploadedFiles
+        .filter(file => file.mimeType.startsWith('image/') || file.mimeType === 'application/pdf')
+        .forEach(recognizeFile);
     } catch (error) {
       console.error('Upload error:', error);
       alert('Failed to process files. Please try again.');
@@ -163,6 +166,45 @@ export default function ChatInput({
     }
   };
 
+  /**
+   * Recognizes the text of an image or scanned PDF so it can be reviewed before sending
+   * Runs in the background; files sent before it finishes are recognized on the server
+   * @param file - Picked file
+   */
+  const recognizeFile = async (file: UploadedFile) => {
+    setRecognizingIds(prev => [...prev, file.uuid]);
+
+    try {
+      const response = await fetch('/api/files/ocr', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ file }),
+      });
+      if (!response.ok) return;
+
+      // An empty text tells the server there is nothing to recognize
+      const { text, confidence }: OcrResponse = await response.json();
+      setUploadedFiles(prev => prev.map(uploaded =>
+        uploaded.uuid === file.uuid
+          ? { ...uploaded, ocrText: text ?? '', ocrConfidence: confidence }
+          : uploaded
+      ));
+    } catch (error) {
+      console.error('Text recognition error:', error);
+    } finally {
+      setRecognizingIds(prev => prev.filter(id => id !== file.uuid));
+    }
+  };
+
+  /**
+   * Replaces the recognized text of a file with the user's correction
+   * @param uuid - Unique identifier of the file
+   * @param ocrText - Corrected text
+   */
+  const updateOcrText = (uuid: string, ocrText: string) => {
+    setUploadedFiles(prev => prev.map(file => file.uuid === uuid ? { ...file, ocrText } : file));
+  };
+
   /**
    * Removes a file from the upload queue
    * @param uuid - Unique identifier of file to remove
@@ -200,25 +242,52 @@ export default function ChatInput({
           </div>
           <div className="space-y-2">
             {uploadedFiles.map((file) => (
-              <div
-                key={file.uuid}
-                className="flex items-center gap-2 p-2 bg-background rounded-lg text-sm"
-              >
-                {file.mimeType.startsWith('image/') ? (
-                  <ImageIcon className="h-4 w-4 text-muted-foreground" />
-                ) : (
-                  <FileText className="h-4 w-4 text-muted-foreground" />
+              <div key={file.uuid} className="bg-background rounded-lg text-sm">
+                <div className="flex items-center gap-2 p-2">
+                  {file.mimeType.startsWith('image/') ? (
+                    <ImageIcon className="h-4 w-4 text-muted-foreground" />
+                  ) : (
+                    <FileText className="h-4 w-4 text-muted-foreground" />
+                  )}
+                  <span className="flex-1 truncate">{file.name}</span>
+                  {recognizingIds.includes(file.uuid) ? (
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      Reading text…
+                    </span>
+                  ) : file.ocrText ? (
+                    <button
+                      onClick={() => setReviewingFileId(prev => prev === file.uuid ? null : file.uuid)}
+                      className="flex items-center gap-1 rounded px-1.5 py-0.5 text-xs text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+                      title="Review recognized text"
+                    >
+                      <ScanText className="h-3 w-3" />
+                      Text · {file.ocrConfidence}%
+                    </button>
+                  ) : null}
+                  <span className="text-xs text-muted-foreground">
+                    {Math.round(file.size / 1024)} KB
+                  </span>
+                  <button
+                    onClick={() => removeFile(file.uuid)}
+                    className="p-1 hover:bg-muted rounded transition-colors"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+                {reviewingFileId === file.uuid && file.ocrText !== undefined && (
+                  <div className="px-2 pb-2">
+                    <textarea
+                      value={file.ocrText}
+                      onChange={(e) => updateOcrText(file.uuid, e.target.value)}
+                      className="w-full h-32 resize-y rounded-md border border-border/50 bg-muted/30 p-2 text-xs font-mono outline-none focus:border-primary/50"
+                      aria-label={`Recognized text of ${file.name}`}
+                    />
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      This text is sent to the model with the file. Correct any misread words before sending.
+                    </p>
+                  </div>
                 )}
-                <span className="flex-1 truncate">{file.name}</span>
-                <span className="text-xs text-muted-foreground">
-                  {Math.round(file.size / 1024)} KB
-                </span>
-                <button
-                  onClick={() => removeFile(file.uuid)}
-                  className="p-1 hover:bg-muted rounded transition-colors"
-                >
-                  <X className="h-3 w-3" />
-                </button>
               </div>
             ))}
           </div>
@@ -275,23 +344,34 @@ export default function ChatInput({
               <Mic className="h-4 w-4 sm:h-5 sm:w-5" />
             </button>
             
-            <button
-              onClick={handleSend}
-              className={`rounded-xl p-1.5 sm:p-2 transition-all duration-200 ${
-                canSend 
-                  ? 'bg-primary text-primary-foreground hover:bg-primary/90 shadow-lg hover:shadow-primary/20 scale-100' 
-                  : 'bg-muted text-muted-foreground cursor-not-allowed scale-95'
-              }`}
-              aria-label="Send message"
-              disabled={!canSend}
-              title={canSend ? "Send message" : "Type a message to send"}
-            >
-              {sending || isUploading ? (
-                <Loader2 className="h-4 w-4 sm:h-5 sm:w-5 animate-spin" />
-              ) : (
-                <SendHorizontal className="h-4 w-4 sm:h-5 sm:w-5" />
-              )}
-            </button>
+            {isGenerating && onStop ? (
+              <button
+                onClick={onStop}
+                className="rounded-xl p-1.5 sm:p-2 bg-primary text-primary-foreground hover:bg-primary/90 shadow-lg transition-all duration-200"
+                aria-label="Stop generating"
+                title="Stop generating"
+              >
+                <Square className="h-4 w-4 sm:h-5 sm:w-5 fill-current" />
+              </button>
+            ) : (
+              <button
+                onClick={handleSend}
+                className={`rounded-xl p-1.5 sm:p-2 transition-all duration-200 ${
+                  canSend 
+                    ? 'bg-primary text-primary-foreground hover:bg-primary/90 shadow-lg hover:shadow-primary/20 scale-100' 
+                    : 'bg-muted text-muted-foreground cursor-not-allowed scale-95'
+                }`}
+                aria-label="Send message"
+                disabled={!canSend}
+                title={canSend ? "Send message" : "Type a message to send"}
+              >
+                {sending || isUploading ? (
+                  <Loader2 className="h-4 w-4 sm:h-5 sm:w-5 animate-spin" />
+                ) : (
+                  <SendHorizontal className="h-4 w-4 sm:h-5 sm:w-5" />
+                )}
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,203 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, Loader2, SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { useModels } from '@/lib/hooks/useModels';
+import { ChatSettings } from '@/lib/types/chat';
+import { SYSTEM_PROMPT_MAX_LENGTH } from '@/lib/llm/config';
+
+interface ChatSettingsMenuProps {
+  settings?: ChatSettings;
+  onSave: (settings: ChatSettings) => Promise<void>;
+  disabled?: boolean;
+}
+
+/**
+ * ChatSettingsMenu Component
+ * Header popover for the chat's system prompt, model and generation parameters
+ * Changes are kept as a draft until saved
+ */
+export default function ChatSettingsMenu({ settings, onSave, disabled = false }: ChatSettingsMenuProps) {
+  const { catalog } = useModels();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<ChatSettings>({});
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState('');
+
+  const defaults = catalog?.defaults;
+  const currentModel = settings?.model || defaults?.model;
+  const currentModelName = catalog?.models.find(m => m.id === currentModel)?.name || currentModel || 'Model';
+
+  const temperature = draft.temperature ?? defaults?.temperature ?? 0.7;
+  const topP = draft.topP ?? 1;
+
+  /**
+   * Resets the draft to the stored settings whenever the popover opens
+   * @param isOpen - Popover open state
+   */
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) {
+      setDraft(settings || {});
+      setSaveError('');
+    }
+  };
+
+  /**
+   * Persists the draft settings
+   */
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setSaveError('');
+      await onSave(draft);
+      setOpen(false);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          className="rounded-lg px-3 h-9 text-sm font-medium hover:bg-accent"
+          disabled={disabled}
+          title="Model and generation settings"
+        >
+          <SlidersHorizontal className="mr-2 h-4 w-4 text-muted-foreground" />
+          <span className="max-w-[160px] truncate">{currentModelName}</span>
+          <ChevronDown className="ml-1 h-4 w-4 text-muted-foreground" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 space-y-4">
+        <div className="space-y-2">
+          <Label className="text-xs text-muted-foreground">Model</Label>
+          <Select
+            value={draft.model || defaults?.model || ''}
+            onValueChange={(value) => setDraft(prev => ({ ...prev, model: value }))}
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue placeholder="Select a model" />
+            </SelectTrigger>
+            <SelectContent>
+              {catalog?.models.map((model) => (
+                <SelectItem key={model.id} value={model.id}>
+                  {model.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="system-prompt" className="text-xs text-muted-foreground">System prompt</Label>
+          <Textarea
+            id="system-prompt"
+            value={draft.systemPrompt ?? ''}
+            onChange={(e) => setDraft(prev => ({ ...prev, systemPrompt: e.target.value }))}
+            placeholder="Default assistant behaviour. Override it for this chat only."
+            maxLength={SYSTEM_PROMPT_MAX_LENGTH}
+            className="min-h-[72px] text-sm"
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="deterministic-mode" className="text-sm">Deterministic</Label>
+            <p className="text-xs text-muted-foreground">Temperature 0 for reproducible answers</p>
+          </div>
+          <Switch
+            id="deterministic-mode"
+            checked={temperature === 0}
+            onCheckedChange={(checked) => setDraft(prev => ({
+              ...prev,
+              temperature: checked ? 0 : defaults?.temperature,
+            }))}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Temperature</Label>
+            <span className="text-xs tabular-nums">{temperature.toFixed(1)}</span>
+          </div>
+          <Slider
+            min={0}
+            max={2}
+            step={0.1}
+            value={[temperature]}
+            onValueChange={([value]) => setDraft(prev => ({ ...prev, temperature: value }))}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Top P</Label>
+            <span className="text-xs tabular-nums">{topP.toFixed(2)}</span>
+          </div>
+          <Slider
+            min={0}
+            max={1}
+            step={0.05}
+            value={[topP]}
+            onValueChange={([value]) => setDraft(prev => ({ ...prev, topP: value }))}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="max-tokens" className="text-xs text-muted-foreground">Max tokens</Label>
+          <Input
+            id="max-tokens"
+            type="number"
+            min={1}
+            max={32000}
+            value={draft.maxTokens ?? ''}
+            placeholder={String(defaults?.maxTokens ?? 1000)}
+            onChange={(e) => setDraft(prev => ({
+              ...prev,
+              maxTokens: e.target.value ? Number(e.target.value) : undefined,
+            }))}
+            className="h-9"
+          />
+        </div>
+
+        {saveError && (
+          <p className="text-xs text-destructive">{saveError}</p>
+        )}
+
+        <div className="flex items-center justify-between pt-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setDraft({})}
+            disabled={saving}
+          >
+            Reset to defaults
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
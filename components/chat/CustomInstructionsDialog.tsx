@@ -0,0 +1,92 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { usePreferences } from '@/lib/hooks/usePreferences';
+import { CUSTOM_INSTRUCTIONS_MAX_LENGTH } from '@/lib/llm/config';
+
+interface CustomInstructionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * CustomInstructionsDialog Component
+ * Lets the user edit instructions that are added to every chat's system prompt
+ */
+export default function CustomInstructionsDialog({ open, onOpenChange }: CustomInstructionsDialogProps) {
+  const { preferences, loading, saveCustomInstructions } = usePreferences();
+  const [instructions, setInstructions] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState('');
+
+  useEffect(() => {
+    if (preferences) {
+      setInstructions(preferences.customInstructions);
+    }
+  }, [preferences]);
+
+  /**
+   * Saves the instructions and closes the dialog
+   */
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setSaveError('');
+      await saveCustomInstructions(instructions);
+      onOpenChange(false);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save instructions');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Custom instructions</DialogTitle>
+          <DialogDescription>
+            What would you like the assistant to know about you and how it should respond? These instructions apply to all of your chats.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Textarea
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+            placeholder={loading ? 'Loading...' : 'e.g. I am a backend engineer. Prefer TypeScript examples and keep answers short.'}
+            maxLength={CUSTOM_INSTRUCTIONS_MAX_LENGTH}
+            disabled={loading || saving}
+            className="min-h-[160px]"
+          />
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span className="text-destructive">{saveError}</span>
+            <span>{instructions.length}/{CUSTOM_INSTRUCTIONS_MAX_LENGTH}</span>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={loading || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,39 +1,50 @@
 'use client';
 
 import { useRef, useEffect, useState } from 'react';
-import { ChatMessage } from '@/lib/types/chat';
+import { Attachment, AttachmentMetadata, ChatMessage, Citation } from '@/lib/types/chat';
+import { formatCitationSource } from '@/lib/rag/citations';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useUser } from '@clerk/nextjs';
-import { Bot, Edit2, Check, X, RotateCcw, FileText, Image as ImageIcon, Download, ExternalLink } from 'lucide-react';
+import { Bot, Edit2, Check, X, RotateCcw, FileText, Image as ImageIcon, Download, ExternalLink, ChevronLeft, ChevronRight } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import Image from 'next/image';
 
 interface MessageListProps {
   messages: ChatMessage[];
   loading?: boolean;
-  onEditMessage?: (messageIndex: number, newContent: string) => void;
-  onRegenerateResponse?: () => void;
+  onEditMessage?: (messageId: string, newContent: string) => void;
+  onSwitchBranch?: (messageId: string) => void;
+  onRegenerateResponse?: (messageId: string) => void;
+  onSelectAlternative?: (messageId: string, index: number) => void;
   canEdit?: boolean;
+  highlightedMessageId?: string | null;
 }
 
 /**
  * MessageList Component
- * Renders chat messages with markdown support, file attachments, and editing capabilities
+ * Renders chat messages with markdown support, file attachments, editing and branch navigation
  * Includes empty state UI and loading indicators
  */
 export default function MessageList({ 
   messages, 
   loading, 
   onEditMessage,
+  onSwitchBranch,
   onRegenerateResponse,
-  canEdit = false 
+  onSelectAlternative,
+  canEdit = false,
+  highlightedMessageId,
 }: MessageListProps) {
   const { user } = useUser();
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  // Highlighted message already scrolled to, so later updates scroll to the bottom again
+  const scrolledToHighlightRef = useRef<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
   const [editContent, setEditContent] = useState('');
+  // Regenerated version being viewed per message, when it differs from the canonical one
+  const [viewedAlternatives, setViewedAlternatives] = useState<Record<string, number>>({});
 
   /**
    * Scrolls to the bottom of the message list
@@ -44,8 +55,18 @@ export default function MessageList({
   };
 
   useEffect(() => {
+    if (highlightedMessageId && scrolledToHighlightRef.current !== highlightedMessageId) {
+      const target = document.getElementById(`message-${highlightedMessageId}`);
+      // Not rendered yet while the branch containing it is being loaded
+      if (!target) return;
+
+      target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      scrolledToHighlightRef.current = highlightedMessageId;
+      return;
+    }
+
     scrollToBottom();
-  }, [messages]);
+  }, [messages, highlightedMessageId]);
 
   /**
    * Generates user initials for avatar display
@@ -69,11 +90,11 @@ export default function MessageList({
 
   /**
    * Initiates message editing mode
-   * @param index - Message index to edit
+   * @param messageId - Id of the message to edit
    * @param content - Current message content
    */
-  const startEditing = (index: number, content: string) => {
-    setEditingIndex(index);
+  const startEditing = (messageId: string, content: string) => {
+    setEditingId(messageId);
     setEditContent(content);
   };
 
@@ -81,9 +102,9 @@ export default function MessageList({
    * Saves edited message and exits edit mode
    */
   const saveEdit = () => {
-    if (editingIndex !== null && onEditMessage) {
-      onEditMessage(editingIndex, editContent);
-      setEditingIndex(null);
+    if (editingId !== null && onEditMessage) {
+      onEditMessage(editingId, editContent);
+      setEditingId(null);
       setEditContent('');
     }
   };
@@ -92,7 +113,7 @@ export default function MessageList({
    * Cancels message editing without saving
    */
   const cancelEdit = () => {
-    setEditingIndex(null);
+    setEditingId(null);
     setEditContent('');
   };
 
@@ -107,6 +128,19 @@ export default function MessageList({
     return <FileText className="h-4 w-4" />;
   };
 
+  /**
+   * Summarizes the length of an extracted document, e.g. "12 pages"
+   * @param metadata - Document details of the attachment
+   */
+  const formatDocumentDetails = (metadata?: AttachmentMetadata) => {
+    if (metadata?.pageCount) {
+      return metadata.ocrConfidence !== undefined ? `${metadata.pageCount} pages, scanned` : `${metadata.pageCount} pages`;
+    }
+    if (metadata?.slideCount) return `${metadata.slideCount} slides`;
+    if (metadata?.sheetCount) return `${metadata.rowCount ?? 0} rows`;
+    return '';
+  };
+
   /**
    * Formats file size in human-readable format
    * @param bytes - File size in bytes
@@ -119,22 +153,190 @@ export default function MessageList({
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
+  /**
+   * Renders "< 2/3 >" navigation between sibling versions of a message
+   * @param message - Message with branch info
+   */
+  const renderBranchNavigator = (message: ChatMessage) => {
+    const { branch } = message;
+    if (!branch || !onSwitchBranch) return null;
+
+    return (
+      <div className="mt-2 flex items-center gap-1 text-xs text-muted-foreground">
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-6 w-6 p-0"
+          onClick={() => onSwitchBranch(branch.siblingIds[branch.index - 1])}
+          disabled={!canEdit || branch.index === 0}
+          title="Previous version"
+        >
+          <ChevronLeft className="h-3.5 w-3.5" />
+        </Button>
+        <span className="tabular-nums">{branch.index + 1}/{branch.total}</span>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-6 w-6 p-0"
+          onClick={() => onSwitchBranch(branch.siblingIds[branch.index + 1])}
+          disabled={!canEdit || branch.index === branch.total - 1}
+          title="Next version"
+        >
+          <ChevronRight className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+    );
+  };
+
+  /**
+   * Returns the version of a message currently shown
+   * Falls back to the canonical fields when no other version is being viewed
+   * @param message - Message to display
+   */
+  const getDisplayedVersion = (message: ChatMessage) => {
+    const viewed = message._id ? viewedAlternatives[message._id] : undefined;
+    return (viewed !== undefined && message.alternatives?.[viewed]) || message;
+  };
+
+  /**
+   * Shows another regenerated version of a reply without changing the canonical one
+   * @param messageId - Id of the assistant message
+   * @param index - Version to view
+   */
+  const viewAlternative = (messageId: string, index: number) => {
+    setViewedAlternatives(prev => ({ ...prev, [messageId]: index }));
+  };
+
+  /**
+   * Goes back to showing the canonical version of a reply
+   * @param messageId - Id of the assistant message
+   */
+  const resetViewedAlternative = (messageId: string) => {
+    setViewedAlternatives(prev => {
+      const next = { ...prev };
+      delete next[messageId];
+      return next;
+    });
+  };
+
+  /**
+   * Keeps the viewed version as the canonical reply
+   * @param messageId - Id of the assistant message
+   * @param index - Version to keep
+   */
+  const keepAlternative = (messageId: string, index: number) => {
+    onSelectAlternative?.(messageId, index);
+    resetViewedAlternative(messageId);
+  };
+
+  /**
+   * Renders "< 2/3 >" navigation between regenerated versions of a reply
+   * Offers to keep the viewed version when it is not the canonical one
+   * @param message - Assistant message with alternatives
+   */
+  const renderAlternativeNavigator = (message: ChatMessage) => {
+    const { _id: messageId, alternatives } = message;
+    if (!messageId || !alternatives || alternatives.length < 2) return null;
+
+    const selected = message.selectedAlternative ?? alternatives.length - 1;
+    const viewed = viewedAlternatives[messageId] ?? selected;
+
+    return (
+      <div className="mt-2 flex items-center gap-1 text-xs text-muted-foreground">
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-6 w-6 p-0"
+          onClick={() => viewAlternative(messageId, viewed - 1)}
+          disabled={viewed === 0}
+          title="Previous response"
+        >
+          <ChevronLeft className="h-3.5 w-3.5" />
+        </Button>
+        <span className="tabular-nums">{viewed + 1}/{alternatives.length}</span>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-6 w-6 p-0"
+          onClick={() => viewAlternative(messageId, viewed + 1)}
+          disabled={viewed === alternatives.length - 1}
+          title="Next response"
+        >
+          <ChevronRight className="h-3.5 w-3.5" />
+        </Button>
+        {viewed !== selected && onSelectAlternative && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 px-2 text-xs"
+            onClick={() => keepAlternative(messageId, viewed)}
+            disabled={!canEdit}
+          >
+            <Check className="mr-1 h-3 w-3" />
+            Use this response
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  /**
+   * Downloads an attachment from its stored URL
+   * @param file - Attachment to download
+   */
+  const downloadFile = (file: Attachment) => {
+    if (!file.url) return;
+    const link = document.createElement('a');
+    link.href = file.url;
+    link.download = file.name;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  /**
+   * Renders the document excerpts a reply was given, numbered like its [n] citations
+   * @param citations - Citations of the displayed version
+   */
+  const renderCitations = (citations?: Citation[]) => {
+    if (!citations || citations.length === 0) return null;
+
+    return (
+      <div className="mt-3 space-y-1">
+        <div className="text-xs text-muted-foreground font-medium">Sources:</div>
+        <ol className="space-y-1 text-xs text-muted-foreground">
+          {citations.map(citation => (
+            <li key={citation.index} className="flex items-center gap-1.5">
+              <span className="tabular-nums">[{citation.index}]</span>
+              <FileText className="h-3 w-3 flex-shrink-0" />
+              <span className="truncate">{formatCitationSource(citation)}</span>
+            </li>
+          ))}
+        </ol>
+      </div>
+    );
+  };
+
   /**
    * Renders file attachment UI with previews and download options
    * @param files - Array of file attachments
    */
-  const renderFileAttachments = (files?: { uuid?: string; name: string; mimeType: string; size: number; cloudinaryUrl?: string; cdnUrl: string }[]) => {
+  const renderFileAttachments = (files?: Attachment[]) => {
     if (!files || files.length === 0) return null;
 
+    // Images without a stored URL cannot be previewed and are listed like other files
+    const previews = files.filter(f => f.mimeType.startsWith('image/') && f.url);
+    const others = files.filter(f => !previews.includes(f));
+
     return (
       <div className="mt-3 space-y-2">
         <div className="text-xs text-muted-foreground font-medium">Attachments:</div>
         <div className="space-y-2">
           {/* Show image previews first */}
-          {files.filter(f => f.mimeType.startsWith('image/')).map((file, index) => (
+          {previews.map((file, index) => (
             <div key={file.uuid || `img-${index}`} className="rounded-lg overflow-hidden border border-border/50">
               <Image 
-                src={file.cloudinaryUrl || file.cdnUrl} 
+                src={file.url!} 
                 alt={file.name}
                 width={500}
                 height={256}
@@ -147,14 +349,7 @@ export default function MessageList({
                   size="sm"
                   variant="ghost"
                   className="h-6 w-6 p-0 hover:bg-primary/10"
-                  onClick={() => {
-                    const link = document.createElement('a');
-                    link.href = file.cloudinaryUrl || file.cdnUrl;
-                    link.download = file.name;
-                    document.body.appendChild(link);
-                    link.click();
-                    document.body.removeChild(link);
-                  }}
+                  onClick={() => downloadFile(file)}
                   title="Download image"
                 >
                   <Download className="h-3 w-3" />
@@ -165,7 +360,7 @@ export default function MessageList({
           
           {/* Show other files in a compact list */}
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
-            {files.filter(f => !f.mimeType.startsWith('image/')).map((file, index) => (
+            {others.map((file, index) => (
               <div
                 key={file.uuid || `file-${index}`}
                 className="flex items-center gap-2 p-2 bg-muted/50 rounded-lg border border-border/50 hover:bg-muted/70 transition-colors"
@@ -176,41 +371,36 @@ export default function MessageList({
                 <div className="flex-1 min-w-0">
                   <div className="text-sm font-medium truncate">{file.name}</div>
                   <div className="text-xs text-muted-foreground">
-                    {formatFileSize(file.size)} • {file.mimeType}
+                    {[formatFileSize(file.size), formatDocumentDetails(file.metadata), file.mimeType].filter(Boolean).join(' • ')}
                   </div>
                 </div>
-                <div className="flex items-center gap-1">
-                  {/* Only show view button for non-data URLs */}
-                  {!file.cdnUrl.startsWith('data:') && (
+                {file.url && (
+                  <div className="flex items-center gap-1">
+                    {/* Only show view button for non-data URLs */}
+                    {!file.url.startsWith('data:') && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 w-6 p-0 hover:bg-primary/10"
+                        onClick={() => window.open(file.url, '_blank')}
+                        title="View file"
+                      >
+                        <ExternalLink className="h-3 w-3" />
+                      </Button>
+                    )}
                     <Button
                       size="sm"
                       variant="ghost"
                       className="h-6 w-6 p-0 hover:bg-primary/10"
-                      onClick={() => window.open(file.cloudinaryUrl || file.cdnUrl, '_blank')}
-                      title="View file"
+                      onClick={() => downloadFile(file)}
+                      title="Download file"
                     >
-                      <ExternalLink className="h-3 w-3" />
+                      <Download className="h-3 w-3" />
                     </Button>
-                  )}
-                  <Button
-                    size="sm"
-                    variant="ghost"
-                    className="h-6 w-6 p-0 hover:bg-primary/10"
-                    onClick={() => {
-                      const link = document.createElement('a');
-                      link.href = file.cloudinaryUrl || file.cdnUrl;
-                      link.download = file.name;
-                      document.body.appendChild(link);
-                      link.click();
-                      document.body.removeChild(link);
-                    }}
-                    title="Download file"
-                  >
-                    <Download className="h-3 w-3" />
-                  </Button>
-                </div>
+                  </div>
+                )}
               </div>
-            ))}
+          ))}
           </div>
         </div>
       </div>
@@ -257,9 +447,12 @@ export default function MessageList({
       <div className="w-full">
         {messages.map((message, index) => (
           <div 
-            key={index} 
+            key={message._id || index} 
+            id={message._id ? `message-${message._id}` : undefined}
             className={`message-container py-6 px-3 sm:px-4 md:px-6 border-b border-border/5 ${
               message.role === 'assistant' ? 'bg-muted/20' : 'bg-background'
+            } ${
+              message._id && message._id === highlightedMessageId ? 'ring-2 ring-inset ring-primary/40' : ''
             } hover:bg-muted/10 transition-colors duration-200`}
           >
             <div className="max-w-4xl mx-auto flex gap-3 sm:gap-4">
@@ -293,9 +486,9 @@ export default function MessageList({
                   </div>
                   {canEdit && (
                     <div className="message-hover-actions flex items-center gap-1 ml-2 sm:ml-4">
-                      {message.role === 'user' && (
+                      {message.role === 'user' && message._id && (
                         <>
-                          {editingIndex === index ? (
+                          {editingId === message._id ? (
                             <>
                               <Button
                                 size="sm"
@@ -318,7 +511,7 @@ export default function MessageList({
                             <Button
                               size="sm"
                               variant="ghost"
-                              onClick={() => startEditing(index, message.content)}
+                              onClick={() => startEditing(message._id!, message.content)}
                               className="h-7 w-7 p-0 hover:bg-muted text-muted-foreground hover:text-foreground"
                               title="Edit message"
                             >
@@ -327,11 +520,14 @@ export default function MessageList({
                           )}
                         </>
                       )}
-                      {message.role === 'assistant' && index === messages.length - 1 && onRegenerateResponse && (
+                      {message.role === 'assistant' && message._id && index === messages.length - 1 && onRegenerateResponse && (
                         <Button
                           size="sm"
                           variant="ghost"
-                          onClick={onRegenerateResponse}
+                          onClick={() => {
+                            resetViewedAlternative(message._id!);
+                            onRegenerateResponse(message._id!);
+                          }}
                           className="h-7 w-7 p-0 hover:bg-muted text-muted-foreground hover:text-foreground"
                           title="Regenerate response"
                         >
@@ -342,7 +538,7 @@ export default function MessageList({
                   )}
                 </div>
                 <div className={`leading-7 ${message.role === 'assistant' ? 'typing-animation' : ''}`}>
-                  {editingIndex === index ? (
+                  {editingId === message._id ? (
                     <div className="bg-muted/50 rounded-lg p-3">
                       <Input
                         value={editContent}
@@ -384,7 +580,7 @@ export default function MessageList({
                           ),
                         }}
                       >
-                        {message.content}
+                        {getDisplayedVersion(message).content}
                       </ReactMarkdown>
                     </div>
                   ) : (
@@ -393,6 +589,20 @@ export default function MessageList({
                     </div>
                   )}
                   {renderFileAttachments(message.files)}
+                  {message.role === 'assistant' && renderCitations(getDisplayedVersion(message).citations)}
+                  {renderBranchNavigator(message)}
+                  {renderAlternativeNavigator(message)}
+                  {message.role === 'assistant' && getDisplayedVersion(message).stopped && (
+                    <div className="mt-2 text-xs text-muted-foreground italic">
+                      Response stopped
+                    </div>
+                  )}
+                  {message.role === 'assistant' && message.context &&
+                    message.context.includedMessages < message.context.totalMessages && (
+                    <div className="mt-2 text-xs text-muted-foreground">
+                      Based on the last {message.context.includedMessages} of {message.context.totalMessages} messages
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -0,0 +1,175 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Check, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useModels } from '@/lib/hooks/useModels';
+import { Project, ProjectInput } from '@/lib/types/chat';
+import { PROJECT_COLORS, PROJECT_NAME_MAX_LENGTH } from '@/lib/chat/projects';
+import { CUSTOM_INSTRUCTIONS_MAX_LENGTH } from '@/lib/llm/config';
+
+// Select items cannot have an empty value, so the provider default gets a sentinel
+const PROVIDER_DEFAULT_MODEL = 'provider-default';
+
+interface ProjectDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  project?: Project | null;
+  onSave: (input: ProjectInput) => Promise<void>;
+}
+
+/**
+ * ProjectDialog Component
+ * Creates a project, or edits the one passed in, with its name, color,
+ * instructions and default model
+ */
+export default function ProjectDialog({ open, onOpenChange, project, onSave }: ProjectDialogProps) {
+  const { catalog } = useModels();
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(PROJECT_COLORS[0]);
+  const [instructions, setInstructions] = useState('');
+  const [defaultModel, setDefaultModel] = useState(PROVIDER_DEFAULT_MODEL);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setName(project?.name || '');
+      setColor(project?.color || PROJECT_COLORS[0]);
+      setInstructions(project?.customInstructions || '');
+      setDefaultModel(project?.defaultModel || PROVIDER_DEFAULT_MODEL);
+      setSaveError('');
+    }
+  }, [open, project]);
+
+  /**
+   * Saves the project and closes the dialog
+   */
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setSaveError('');
+      await onSave({
+        name,
+        color,
+        customInstructions: instructions,
+        defaultModel: defaultModel === PROVIDER_DEFAULT_MODEL ? null : defaultModel,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save project');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{project ? 'Edit project' : 'New project'}</DialogTitle>
+          <DialogDescription>
+            Group related chats. Project instructions and the default model apply to every chat in the project.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="project-name" className="text-xs text-muted-foreground">Name</Label>
+            <Input
+              id="project-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Thesis research"
+              maxLength={PROJECT_NAME_MAX_LENGTH}
+              disabled={saving}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Color</Label>
+            <div className="flex flex-wrap gap-2">
+              {PROJECT_COLORS.map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setColor(option)}
+                  className="flex h-6 w-6 items-center justify-center rounded-full ring-offset-background transition-shadow hover:ring-2 hover:ring-ring hover:ring-offset-2"
+                  style={{ backgroundColor: option }}
+                  aria-label={`Color ${option}`}
+                  aria-pressed={color === option}
+                >
+                  {color === option && <Check className="h-3.5 w-3.5 text-white" />}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Default model</Label>
+            <Select value={defaultModel} onValueChange={setDefaultModel} disabled={saving}>
+              <SelectTrigger className="h-9">
+                <SelectValue placeholder="Select a model" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PROVIDER_DEFAULT_MODEL}>
+                  Provider default{catalog?.defaults.model ? ` (${catalog.defaults.model})` : ''}
+                </SelectItem>
+                {catalog?.models.map((model) => (
+                  <SelectItem key={model.id} value={model.id}>
+                    {model.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="project-instructions" className="text-xs text-muted-foreground">Instructions</Label>
+            <Textarea
+              id="project-instructions"
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+              placeholder="e.g. Answers should cite the papers in this project and use British spelling."
+              maxLength={CUSTOM_INSTRUCTIONS_MAX_LENGTH}
+              disabled={saving}
+              className="min-h-[120px]"
+            />
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span className="text-destructive">{saveError}</span>
+              <span>{instructions.length}/{CUSTOM_INSTRUCTIONS_MAX_LENGTH}</span>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !name.trim()}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {project ? 'Save' : 'Create project'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import Link from 'next/link';
+import { ReactNode } from 'react';
+import { useSearch } from '@/lib/hooks/useSearch';
+import { SearchHighlight } from '@/lib/types/chat';
+
+interface SearchResultsProps {
+  query: string;
+  currentChatId?: string;
+}
+
+/**
+ * Wraps the highlighted ranges of a text in <mark> elements
+ * @param text - Text to render
+ * @param highlights - Sorted, non-overlapping ranges to highlight
+ */
+function renderHighlighted(text: string, highlights: SearchHighlight[]): ReactNode[] {
+  const parts: ReactNode[] = [];
+  let position = 0;
+
+  highlights.forEach(({ start, end }, index) => {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(
+      <mark key={index} className="rounded-sm bg-primary/20 text-inherit">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+
+  if (position < text.length) parts.push(text.slice(position));
+  return parts;
+}
+
+/**
+ * SearchResults Component
+ * Sidebar panel listing chats whose title or messages match the search
+ * Snippets link to the chat with the matching message highlighted
+ */
+export default function SearchResults({ query, currentChatId }: SearchResultsProps) {
+  const { results, loading, error } = useSearch(query);
+
+  if (error) {
+    return (
+      <div className="p-4 text-center text-sm text-destructive">{error}</div>
+    );
+  }
+
+  if (loading && results.length === 0) {
+    return (
+      <div className="p-4 text-center text-sm text-sidebar-foreground/60">
+        <div className="animate-pulse">Searching...</div>
+      </div>
+    );
+  }
+
+  if (results.length === 0) {
+    return (
+      <div className="p-4 text-center text-sm text-sidebar-foreground/60">
+        <div className="space-y-2">
+          <div>No chats found</div>
+          <div className="text-xs">Try a different search term</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`space-y-2 transition-opacity ${loading ? 'opacity-60' : ''}`}>
+      {results.map((result) => (
+        <div key={result.chatId} className="space-y-0.5">
+          <Link
+            href={`/chat/${result.chatId}`}
+            className={`flex items-center gap-2 rounded-lg px-3 py-2 text-sm font-medium transition-colors ${
+              currentChatId === result.chatId
+                ? 'bg-sidebar-accent text-sidebar-accent-foreground'
+                : 'text-sidebar-foreground/90 hover:bg-sidebar-accent/60 hover:text-sidebar-accent-foreground'
+            }`}
+            title={result.title}
+          >
+            <span className="min-w-0 flex-1 truncate">
+              {renderHighlighted(result.title, result.titleHighlights)}
+            </span>
+            {result.archived && (
+              <span className="shrink-0 text-[10px] uppercase tracking-wide text-sidebar-foreground/50">Archived</span>
+            )}
+          </Link>
+          {result.matches.map((match) => (
+            <Link
+              key={match.messageId}
+              href={`/chat/${result.chatId}?message=${match.messageId}`}
+              className="block rounded-lg px-3 py-1.5 ml-2 text-xs leading-relaxed text-sidebar-foreground/70 hover:bg-sidebar-accent/60 hover:text-sidebar-accent-foreground transition-colors"
+            >
+              <span className="font-medium text-sidebar-foreground/50">
+                {match.role === 'user' ? 'You: ' : 'Assistant: '}
+              </span>
+              {renderHighlighted(match.snippet, match.highlights)}
+            </Link>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
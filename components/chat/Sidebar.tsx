@@ -9,6 +9,19 @@ import {
   User,
   ChevronUp,
   Trash2,
+  MessageSquareText,
+  MoreHorizontal,
+  RefreshCw,
+  Pencil,
+  Pin,
+  PinOff,
+  Archive,
+  ArchiveRestore,
+  ArrowLeft,
+  ChevronRight,
+  FolderInput,
+  FolderMinus,
+  FolderPlus,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -19,6 +32,9 @@ import {
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import {
@@ -33,12 +49,20 @@ import {
 } from "@/components/ui/alert-dialog";
 import { useUser, useClerk } from "@clerk/nextjs";
 import { useRouter } from "next/navigation";
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Input } from "@/components/ui/input";
 import { useChats } from "@/lib/hooks/useChat";
+import { useProjects } from "@/lib/hooks/useProjects";
+import { groupByDate } from "@/lib/chat/dates";
+import { ChatListView, ChatSummary, ChatUpdate, Project, ProjectInput } from "@/lib/types/chat";
+import { CHAT_TITLE_MAX_LENGTH } from "@/lib/chat/title";
 import Link from "next/link";
 import { useSidebar } from "@/lib/contexts/SidebarContext";
 import { Menu } from "lucide-react";
+import CustomInstructionsDialog from "@/components/chat/CustomInstructionsDialog";
+import ProjectDialog from "@/components/chat/ProjectDialog";
+import SearchResults from "@/components/chat/SearchResults";
+import { toast } from "@/components/ui/sonner";
 
 interface SidebarProps {
   currentChatId?: string;
@@ -57,14 +81,75 @@ export default function Sidebar({ currentChatId }: SidebarProps) {
   const [deleteError, setDeleteError] = useState("");
   const [isDeleting, setIsDeleting] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const [showInstructionsDialog, setShowInstructionsDialog] = useState(false);
+  const [retitlingChatId, setRetitlingChatId] = useState<string | null>(null);
+  const [renamingChatId, setRenamingChatId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [view, setView] = useState<ChatListView>('active');
+  const [permanentDeleteChat, setPermanentDeleteChat] = useState<ChatSummary | null>(null);
+  const [expandedProjectIds, setExpandedProjectIds] = useState<string[]>([]);
+  const [showProjectDialog, setShowProjectDialog] = useState(false);
+  const [editingProject, setEditingProject] = useState<Project | null>(null);
   const { isOpen, close, toggle, open } = useSidebar();
   
-  const { chats, loading: chatsLoading, createChat, deleteChat } = useChats();
+  const {
+    chats,
+    loading: chatsLoading,
+    loadingMore,
+    hasMore,
+    projectChats,
+    fetchChats,
+    loadMoreChats,
+    loadProjectChats,
+    createChat,
+    deleteChat,
+    restoreChat,
+    updateChat,
+    regenerateTitle,
+  } = useChats({ view });
+  const { projects, createProject, updateProject, deleteProject } = useProjects();
 
-  // Filter chats based on search query
-  const filteredChats = chats.filter(chat =>
-    chat.title.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  // A search query swaps the chat list for server-side search results
+  const isSearching = isOpen && !!searchQuery.trim();
+
+  // Pinned chats get their own section, then project folders, then the remaining chats;
+  // folders load their chats separately, so the paginated list only holds chats outside projects
+  const pinnedChats = view !== 'active' ? [] : chats.filter(chat => chat.pinned);
+  const otherChats = view !== 'active' ? chats : chats.filter(chat => !chat.pinned);
+  const showProjectsSection = view === 'active';
+
+  // Latest loader, read through a ref so expanding a folder does not depend on every render
+  const loadProjectChatsRef = useRef(loadProjectChats);
+  loadProjectChatsRef.current = loadProjectChats;
+
+  // Loads the chats of expanded folders, again after the list is refreshed
+  useEffect(() => {
+    if (!showProjectsSection) return;
+    expandedProjectIds
+      .filter(projectId => !projectChats[projectId])
+      .forEach(projectId => loadProjectChatsRef.current(projectId));
+  }, [showProjectsSection, expandedProjectIds, projectChats]);
+
+  // Sentinel at the end of the list; loads the next page when scrolled into view
+  const loadMoreSentinelRef = useRef<HTMLDivElement>(null);
+  // Latest loader, read through a ref so the observer is not rebuilt every render
+  const loadMoreChatsRef = useRef(loadMoreChats);
+  loadMoreChatsRef.current = loadMoreChats;
+
+  useEffect(() => {
+    const sentinel = loadMoreSentinelRef.current;
+    if (!sentinel || !hasMore) return;
+
+    // Recreated as chats arrive, so a sentinel that is still visible loads again
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        loadMoreChatsRef.current();
+      }
+    });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isOpen, chats.length]);
 
 
   /**
@@ -97,6 +182,7 @@ export default function Sidebar({ currentChatId }: SidebarProps) {
     try {
       // Note: For OAuth accounts, Clerk will show a browser confirm dialog
       // This is a security feature and cannot be bypassed
+      // Chats and files are purged by the Clerk webhook once the deletion goes through
       await user.delete();
       
       // If we reach here, deletion was successful
@@ -170,10 +256,12 @@ export default function Sidebar({ currentChatId }: SidebarProps) {
 
   /**
    * Creates new chat and navigates to it
+   * @param projectId - Optional project to create the chat in
    */
-  const handleNewChat = async () => {
+  const handleNewChat = async (projectId?: string) => {
     try {
-      const newChat = await createChat();
+      const newChat = await createChat(undefined, projectId);
+      setView('active');
       router.push(`/chat/${newChat._id}`);
     } catch (error) {
       console.error('Error creating chat:', error);
@@ -181,7 +269,7 @@ export default function Sidebar({ currentChatId }: SidebarProps) {
   };
 
   /**
-   * Deletes a chat from history
+   * Moves a chat to the trash, offering to undo it
    * @param chatId - ID of chat to delete
    * @param e - Mouse event to prevent propagation
    */
@@ -189,18 +277,446 @@ export default function Sidebar({ currentChatId }: SidebarProps) {
     e.preventDefault();
     e.stopPropagation();
     
+    const wasOpen = currentChatId === chatId;
     try {
       await deleteChat(chatId);
-      if (currentChatId === chatId) {
+      toast('Chat moved to trash', {
+        action: {
+          label: 'Undo',
+          onClick: () => handleRestoreChat(chatId, wasOpen),
+        },
+      });
+      if (wasOpen) {
         router.push('/chat');
       }
     } catch (error) {
       console.error('Error deleting chat:', error);
-      // Show user-friendly error message
-      alert('Failed to delete chat. Please try again.');
+      toast.error('Failed to delete chat. Please try again.');
+    }
+  };
+
+  /**
+   * Moves a chat out of the trash
+   * @param chatId - ID of chat to restore
+   * @param reopen - Whether to navigate back to the chat
+   */
+  const handleRestoreChat = async (chatId: string, reopen = false) => {
+    try {
+      await restoreChat(chatId);
+      if (reopen) {
+        router.push(`/chat/${chatId}`);
+      }
+    } catch (error) {
+      console.error('Error restoring chat:', error);
+      toast.error('Failed to restore chat. Please try again.');
+    }
+  };
+
+  /**
+   * Deletes the chat awaiting confirmation for good, with its attachments
+   */
+  const handlePermanentDelete = async () => {
+    if (!permanentDeleteChat) return;
+
+    const chatId = permanentDeleteChat._id;
+    setPermanentDeleteChat(null);
+    try {
+      await deleteChat(chatId, { permanent: true });
+      toast('Chat deleted permanently');
+    } catch (error) {
+      console.error('Error deleting chat permanently:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete chat. Please try again.');
+    }
+  };
+
+  /**
+   * Asks the model for a fresh title for a chat
+   * @param chatId - ID of chat to retitle
+   */
+  const handleRegenerateTitle = async (chatId: string) => {
+    if (retitlingChatId) return;
+
+    setRetitlingChatId(chatId);
+    try {
+      await regenerateTitle(chatId);
+    } catch (error) {
+      console.error('Error regenerating chat title:', error);
+      toast.error('Failed to regenerate title. Please try again.');
+    } finally {
+      setRetitlingChatId(null);
+    }
+  };
+
+  /**
+   * Applies a change from a chat's options menu
+   * @param chatId - ID of chat to update
+   * @param updates - Fields to change
+   * @param failureMessage - Message shown if the update fails
+   */
+  const handleUpdateChat = async (chatId: string, updates: ChatUpdate, failureMessage: string) => {
+    try {
+      await updateChat(chatId, updates);
+    } catch (error) {
+      console.error('Error updating chat:', error);
+      toast.error(failureMessage);
+    }
+  };
+
+  /**
+   * Replaces a chat's title with an input for inline renaming
+   * @param chat - Chat to rename
+   */
+  const startRenaming = (chat: ChatSummary) => {
+    setRenamingChatId(chat._id);
+    setRenameValue(chat.title);
+  };
+
+  /**
+   * Saves the inline rename, ignoring empty or unchanged titles
+   * Takes the chat from its row, since project chats are not in the main list
+   * @param chat - Chat being renamed
+   */
+  const commitRename = async (chat: ChatSummary) => {
+    if (renamingChatId !== chat._id) return;
+    const title = renameValue.trim();
+    setRenamingChatId(null);
+
+    if (!title || title === chat.title) return;
+    await handleUpdateChat(chat._id, { title }, 'Failed to rename chat. Please try again.');
+  };
+
+  /**
+   * Expands or collapses a project folder
+   * @param projectId - ID of project to toggle
+   */
+  const toggleProject = (projectId: string) => {
+    setExpandedProjectIds(prev => prev.includes(projectId)
+      ? prev.filter(id => id !== projectId)
+      : [...prev, projectId]);
+  };
+
+  /**
+   * Opens the project dialog to create a project, or to edit the given one
+   * @param project - Project to edit
+   */
+  const openProjectDialog = (project: Project | null = null) => {
+    setEditingProject(project);
+    setShowProjectDialog(true);
+  };
+
+  /**
+   * Saves the project dialog, expanding newly created projects
+   * @param input - Project fields from the dialog
+   */
+  const handleSaveProject = async (input: ProjectInput) => {
+    if (editingProject) {
+      await updateProject(editingProject._id, input);
+    } else {
+      const project = await createProject(input);
+      setExpandedProjectIds(prev => [...prev, project._id]);
+    }
+  };
+
+  /**
+   * Deletes a project; its chats move back to the main list
+   * @param projectId - ID of project to delete
+   */
+  const handleDeleteProject = async (projectId: string) => {
+    try {
+      await deleteProject(projectId);
+      await fetchChats();
+    } catch (error) {
+      console.error('Error deleting project:', error);
+      toast.error('Failed to delete project. Please try again.');
     }
   };
 
+  /**
+   * Creates a chat inside a project and opens the folder
+   * @param projectId - ID of project to create the chat in
+   */
+  const handleNewProjectChat = async (projectId: string) => {
+    setExpandedProjectIds(prev => prev.includes(projectId) ? prev : [...prev, projectId]);
+    await handleNewChat(projectId);
+  };
+
+  /**
+   * Renders a chat in the trash; it cannot be opened, only restored or deleted for good
+   * @param chat - Deleted chat to render
+   */
+  const renderTrashItem = (chat: ChatSummary) => (
+    <div
+      key={chat._id}
+      className="group relative w-full flex items-center px-3 pr-10 rounded-lg h-10 text-sidebar-foreground/70"
+      title={chat.title}
+    >
+      <p className="min-w-0 flex-1 truncate text-sm font-medium">{chat.title}</p>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            className="absolute right-2 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 transition-all duration-200 rounded-md p-1.5 hover:bg-sidebar-accent text-sidebar-foreground/50 hover:text-sidebar-foreground"
+            aria-label="Chat options"
+            title="Chat options"
+          >
+            <MoreHorizontal className="h-3.5 w-3.5" />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-48">
+          <DropdownMenuItem onClick={() => handleRestoreChat(chat._id)}>
+            <ArchiveRestore className="mr-2 h-4 w-4" />
+            Restore
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => setPermanentDeleteChat(chat)}
+            className="text-destructive focus:text-destructive"
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete permanently
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+
+  /**
+   * Renders a single chat row with its options menu
+   * @param chat - Chat to render
+   */
+  const renderChatItem = (chat: ChatSummary) => {
+    if (isOpen && chat.deletedAt) {
+      return renderTrashItem(chat);
+    }
+
+    if (isOpen && renamingChatId === chat._id) {
+      return (
+        <div key={chat._id} className="px-1">
+          <Input
+            value={renameValue}
+            onChange={(e) => setRenameValue(e.target.value)}
+            onBlur={() => commitRename(chat)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                commitRename(chat);
+              } else if (e.key === 'Escape') {
+                setRenamingChatId(null);
+              }
+            }}
+            onFocus={(e) => e.currentTarget.select()}
+            autoFocus
+            maxLength={CHAT_TITLE_MAX_LENGTH}
+            aria-label="Chat title"
+            className="h-10 text-sm bg-sidebar-accent/30 border-sidebar-border/50"
+          />
+        </div>
+      );
+    }
+
+    return (
+      <div key={chat._id} className="group relative">
+        <Link href={`/chat/${chat._id}`} className="block">
+          <div
+            className={`w-full flex items-center ${isOpen ? 'px-3 pr-10' : 'px-2 justify-center'} rounded-lg h-10 transition-all cursor-pointer ${
+              currentChatId === chat._id 
+                ? "bg-sidebar-accent text-sidebar-accent-foreground border border-sidebar-border/50" 
+                : "hover:bg-sidebar-accent/60 text-sidebar-foreground/90 hover:text-sidebar-accent-foreground"
+            }`}
+            title={chat.title}
+          >
+            {isOpen ? (
+              <div className="min-w-0 flex-1 overflow-hidden">
+                <p 
+                  className="text-sm font-medium"
+                  style={{
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                    display: 'block'
+                  }}
+                >
+                  {retitlingChatId === chat._id ? 'Generating title...' : chat.title}
+                </p>
+              </div>
+            ) : (
+              <div className="w-2 h-2 rounded-full bg-current opacity-60" />
+            )}
+          </div>
+        </Link>
+        {isOpen && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                className="absolute right-2 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 transition-all duration-200 rounded-md p-1.5 hover:bg-sidebar-accent text-sidebar-foreground/50 hover:text-sidebar-foreground"
+                aria-label="Chat options"
+                title="Chat options"
+              >
+                <MoreHorizontal className="h-3.5 w-3.5" />
+              </button>
+            </DropdownMenuTrigger>
+            {/* Focus stays put on close so the rename input can take it */}
+            <DropdownMenuContent align="end" className="w-48" onCloseAutoFocus={(e) => e.preventDefault()}>
+              <DropdownMenuItem onClick={() => startRenaming(chat)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Rename
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => handleRegenerateTitle(chat._id)}
+                disabled={retitlingChatId !== null}
+              >
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Regenerate title
+              </DropdownMenuItem>
+              {!chat.archived && projects.length > 0 && (
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>
+                    <FolderInput className="mr-2 h-4 w-4" />
+                    Move to project
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent className="w-48">
+                    {projects.map((project) => (
+                      <DropdownMenuItem
+                        key={project._id}
+                        disabled={chat.projectId === project._id}
+                        onClick={() => handleUpdateChat(
+                          chat._id,
+                          { projectId: project._id },
+                          'Failed to move chat. Please try again.'
+                        )}
+                      >
+                        <span className="mr-2 h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: project.color }} />
+                        <span className="truncate">{project.name}</span>
+                      </DropdownMenuItem>
+                    ))}
+                    {chat.projectId && (
+                      <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          onClick={() => handleUpdateChat(
+                            chat._id,
+                            { projectId: null },
+                            'Failed to move chat. Please try again.'
+                          )}
+                        >
+                          <FolderMinus className="mr-2 h-4 w-4" />
+                          Remove from project
+                        </DropdownMenuItem>
+                      </>
+                    )}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              )}
+              {!chat.archived && (
+                <DropdownMenuItem
+                  onClick={() => handleUpdateChat(
+                    chat._id,
+                    { pinned: !chat.pinned },
+                    `Failed to ${chat.pinned ? 'unpin' : 'pin'} chat. Please try again.`
+                  )}
+                >
+                  {chat.pinned ? <PinOff className="mr-2 h-4 w-4" /> : <Pin className="mr-2 h-4 w-4" />}
+                  {chat.pinned ? 'Unpin' : 'Pin'}
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem
+                onClick={() => handleUpdateChat(
+                  chat._id,
+                  { archived: !chat.archived },
+                  `Failed to ${chat.archived ? 'unarchive' : 'archive'} chat. Please try again.`
+                )}
+              >
+                {chat.archived ? <ArchiveRestore className="mr-2 h-4 w-4" /> : <Archive className="mr-2 h-4 w-4" />}
+                {chat.archived ? 'Unarchive' : 'Archive'}
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                onClick={(e) => handleDeleteChat(chat._id, e)}
+                className="text-destructive focus:text-destructive"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete chat
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+    );
+  };
+
+  /**
+   * Renders a collapsible project folder with its chats
+   * @param project - Project to render
+   */
+  const renderProject = (project: Project) => {
+    const folder = projectChats[project._id];
+    const expanded = expandedProjectIds.includes(project._id);
+
+    return (
+      <div key={project._id} className="space-y-1">
+        <div className="group relative">
+          <button
+            onClick={() => toggleProject(project._id)}
+            className="w-full flex items-center gap-2 px-3 pr-10 rounded-lg h-9 text-sm text-sidebar-foreground/90 hover:bg-sidebar-accent/60 hover:text-sidebar-accent-foreground transition-all"
+            aria-expanded={expanded}
+            title={project.name}
+          >
+            <ChevronRight className={`h-3.5 w-3.5 shrink-0 text-sidebar-foreground/50 transition-transform ${expanded ? 'rotate-90' : ''}`} />
+            <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: project.color }} />
+            <span className="min-w-0 flex-1 truncate text-left font-medium">{project.name}</span>
+          </button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                className="absolute right-2 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 transition-all duration-200 rounded-md p-1.5 hover:bg-sidebar-accent text-sidebar-foreground/50 hover:text-sidebar-foreground"
+                aria-label="Project options"
+                title="Project options"
+              >
+                <MoreHorizontal className="h-3.5 w-3.5" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-48">
+              <DropdownMenuItem onClick={() => handleNewProjectChat(project._id)}>
+                <Plus className="mr-2 h-4 w-4" />
+                New chat
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => openProjectDialog(project)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit project
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                onClick={() => handleDeleteProject(project._id)}
+                className="text-destructive focus:text-destructive"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete project
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        {expanded && (
+          <div className="pl-4 space-y-1">
+            {!folder ? (
+              <div className="px-3 py-1.5 text-xs text-sidebar-foreground/50 animate-pulse">Loading chats...</div>
+            ) : folder.chats.length > 0 ? (
+              folder.chats.map(renderChatItem)
+            ) : (
+              <div className="px-3 py-1.5 text-xs text-sidebar-foreground/50">No chats in this project</div>
+            )}
+            {folder?.nextCursor && (
+              <button
+                onClick={() => loadProjectChats(project._id)}
+                className="w-full px-3 py-1.5 text-left text-xs text-sidebar-foreground/60 hover:text-sidebar-foreground transition-colors"
+              >
+                Show more
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <>
       {/* Mobile overlay */}
@@ -226,7 +742,7 @@ export default function Sidebar({ currentChatId }: SidebarProps) {
         
         {/* New Chat Button */}
         <Button
-          onClick={handleNewChat}
+          onClick={() => handleNewChat()}
           variant="ghost"
           className={`${isOpen ? 'w-full justify-start' : 'w-full justify-center'} rounded-lg hover:bg-sidebar-accent/80 transition-colors h-11 text-sm font-medium border border-sidebar-border/50 hover:border-sidebar-border`}
           title={isOpen ? undefined : "New chat"}
@@ -247,6 +763,39 @@ export default function Sidebar({ currentChatId }: SidebarProps) {
               className="pl-10 bg-sidebar-accent/30 border-sidebar-border/50 text-sidebar-foreground placeholder:text-sidebar-foreground/50 h-9 rounded-lg focus:ring-1 focus:ring-primary/50 focus:border-primary/50"
             />
           </div>
+          {/* Switches the list between active, archived and deleted chats */}
+          {view === 'active' ? (
+            <div className="mt-2 flex gap-1">
+              <Button
+                onClick={() => setView('archived')}
+                variant="ghost"
+                size="sm"
+                className="flex-1 justify-start rounded-lg px-3 h-8 text-xs text-sidebar-foreground/70 hover:bg-sidebar-accent/60"
+              >
+                <Archive className="mr-2 h-3.5 w-3.5" />
+                Archived
+              </Button>
+              <Button
+                onClick={() => setView('trash')}
+                variant="ghost"
+                size="sm"
+                className="flex-1 justify-start rounded-lg px-3 h-8 text-xs text-sidebar-foreground/70 hover:bg-sidebar-accent/60"
+              >
+                <Trash2 className="mr-2 h-3.5 w-3.5" />
+                Trash
+              </Button>
+            </div>
+          ) : (
+            <Button
+              onClick={() => setView('active')}
+              variant="ghost"
+              size="sm"
+              className="mt-2 w-full justify-start rounded-lg px-3 h-8 text-xs text-sidebar-foreground/70 hover:bg-sidebar-accent/60"
+            >
+              <ArrowLeft className="mr-2 h-3.5 w-3.5" />
+              Back to chats
+            </Button>
+          )}
         </div>
       ) : (
         <div className="px-2 pb-2">
@@ -264,66 +813,77 @@ export default function Sidebar({ currentChatId }: SidebarProps) {
       <div className="flex-1 overflow-hidden">
         <ScrollArea className="h-full sidebar-scroll">
           <nav className={`${isOpen ? 'px-3' : 'px-2'} py-2 space-y-1`}>
-            {chatsLoading ? (
+            {isSearching ? (
+              <SearchResults query={searchQuery} currentChatId={currentChatId} />
+            ) : chatsLoading ? (
               isOpen ? (
                 <div className="p-4 text-center text-sm text-sidebar-foreground/60">
                   <div className="animate-pulse">Loading chats...</div>
                 </div>
               ) : null
-            ) : filteredChats.length === 0 ? (
+            ) : chats.length === 0 && (view !== 'active' || projects.length === 0) ? (
               isOpen ? (
                 <div className="p-4 text-center text-sm text-sidebar-foreground/60">
                   <div className="space-y-2">
-                    <div>{searchQuery ? 'No chats found' : 'No chats yet'}</div>
+                    <div>
+                      {view === 'trash' ? 'Trash is empty' : view === 'archived' ? 'No archived chats' : 'No chats yet'}
+                    </div>
                     <div className="text-xs">
-                      {searchQuery ? 'Try a different search term' : 'Start a new conversation above'}
+                      {view === 'trash'
+                        ? 'Deleted chats stay here for a while before they are removed for good'
+                        : view === 'archived'
+                          ? 'Archive a chat from its options menu'
+                          : 'Start a new conversation above'}
                     </div>
                   </div>
                 </div>
               ) : null
             ) : (
-              filteredChats.slice(0, isOpen ? filteredChats.length : 5).map((chat) => (
-                <div key={chat._id} className="group relative">
-                  <Link href={`/chat/${chat._id}`} className="block">
-                    <div
-                      className={`w-full flex items-center ${isOpen ? 'px-3 pr-10' : 'px-2 justify-center'} rounded-lg h-10 transition-all cursor-pointer ${
-                        currentChatId === chat._id 
-                          ? "bg-sidebar-accent text-sidebar-accent-foreground border border-sidebar-border/50" 
-                          : "hover:bg-sidebar-accent/60 text-sidebar-foreground/90 hover:text-sidebar-accent-foreground"
-                      }`}
-                      title={chat.title}
-                    >
-                      {isOpen ? (
-                        <div className="min-w-0 flex-1 overflow-hidden">
-                          <p 
-                            className="text-sm font-medium"
-                            style={{
-                              overflow: 'hidden',
-                              textOverflow: 'ellipsis',
-                              whiteSpace: 'nowrap',
-                              display: 'block'
-                            }}
-                          >
-                            {chat.title}
-                          </p>
-                        </div>
-                      ) : (
-                        <div className="w-2 h-2 rounded-full bg-current opacity-60" />
-                      )}
-                    </div>
-                  </Link>
-                  {isOpen && (
-                    <button
-                      onClick={(e) => handleDeleteChat(chat._id, e)}
-                      className="absolute right-2 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 transition-all duration-200 rounded-md p-1.5 hover:bg-destructive/10 text-sidebar-foreground/50 hover:text-destructive"
-                      aria-label="Delete chat"
-                      title="Delete chat"
-                    >
-                      <Trash2 className="h-3.5 w-3.5" />
-                    </button>
+              isOpen ? (
+                <>
+                  {pinnedChats.length > 0 && (
+                    <>
+                      <div className="px-3 pt-1 pb-1 text-xs font-medium text-sidebar-foreground/50">
+                        Pinned
+                      </div>
+                      {pinnedChats.map(renderChatItem)}
+                    </>
                   )}
-                </div>
-              ))
+                  {showProjectsSection && (
+                    <>
+                      <div className={`flex items-center justify-between px-3 ${pinnedChats.length > 0 ? 'pt-3' : 'pt-1'} pb-1`}>
+                        <span className="text-xs font-medium text-sidebar-foreground/50">Projects</span>
+                        <button
+                          onClick={() => openProjectDialog()}
+                          className="rounded-md p-1 text-sidebar-foreground/50 hover:bg-sidebar-accent hover:text-sidebar-foreground transition-colors"
+                          aria-label="New project"
+                          title="New project"
+                        >
+                          <FolderPlus className="h-3.5 w-3.5" />
+                        </button>
+                      </div>
+                      {projects.map(renderProject)}
+                    </>
+                  )}
+                  {groupByDate(otherChats).map((group, index) => (
+                    <div key={group.label} className="space-y-1">
+                      <div
+                        className={`px-3 ${index === 0 && pinnedChats.length === 0 && !showProjectsSection ? 'pt-1' : 'pt-3'} pb-1 text-xs font-medium text-sidebar-foreground/50`}
+                      >
+                        {group.label}
+                      </div>
+                      {group.items.map(renderChatItem)}
+                    </div>
+                  ))}
+                </>
+              ) : (
+                chats.slice(0, 5).map(renderChatItem)
+              )
+            )}
+            {isOpen && !isSearching && !chatsLoading && hasMore && (
+              <div ref={loadMoreSentinelRef} className="py-2 text-center text-xs text-sidebar-foreground/50">
+                {loadingMore ? <div className="animate-pulse">Loading more chats...</div> : null}
+              </div>
             )}
           </nav>
         </ScrollArea>
@@ -426,6 +986,10 @@ export default function Sidebar({ currentChatId }: SidebarProps) {
               <Sparkles className="mr-2 h-4 w-4" />
               Upgrade to Plus
             </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => setShowInstructionsDialog(true)}>
+              <MessageSquareText className="mr-2 h-4 w-4" />
+              Custom instructions
+            </DropdownMenuItem>
             <DropdownMenuItem>
               <Settings className="mr-2 h-4 w-4" />
               Settings
@@ -453,6 +1017,44 @@ export default function Sidebar({ currentChatId }: SidebarProps) {
         </DropdownMenu>
         )}
 
+        <ProjectDialog
+          open={showProjectDialog}
+          onOpenChange={setShowProjectDialog}
+          project={editingProject}
+          onSave={handleSaveProject}
+        />
+
+        {showInstructionsDialog && (
+          <CustomInstructionsDialog
+            open={showInstructionsDialog}
+            onOpenChange={setShowInstructionsDialog}
+          />
+        )}
+
+        {/* Permanent Chat Deletion Confirmation Dialog */}
+        <AlertDialog
+          open={permanentDeleteChat !== null}
+          onOpenChange={(open) => !open && setPermanentDeleteChat(null)}
+        >
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete chat permanently?</AlertDialogTitle>
+              <AlertDialogDescription>
+                &quot;{permanentDeleteChat?.title}&quot; and its attached files will be deleted. This action cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handlePermanentDelete}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Delete permanently
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
         {/* Delete Account Confirmation Dialog */}
         <AlertDialog open={showDeleteDialog} onOpenChange={handleDialogClose}>
           <AlertDialogContent>
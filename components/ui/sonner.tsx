@@ -1,10 +1,12 @@
-import { useTheme } from "next-themes"
+"use client"
+
+import { useTheme } from "@/lib/contexts/ThemeContext"
 import { Toaster as Sonner, toast } from "sonner"
 
 type ToasterProps = React.ComponentProps<typeof Sonner>
 
 const Toaster = ({ ...props }: ToasterProps) => {
-  const { theme = "system" } = useTheme()
+  const { theme } = useTheme()
 
   return (
     <Sonner
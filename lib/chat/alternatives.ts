@@ -0,0 +1,55 @@
+import { Citation, ContextUsage, MessageAlternative } from '@/lib/types/chat';
+
+/**
+ * The fields of an assistant message that track regenerated versions
+ */
+export interface AlternativeMessage {
+  content: string;
+  timestamp: Date;
+  context?: ContextUsage;
+  citations?: Citation[];
+  stopped?: boolean;
+  alternatives?: MessageAlternative[];
+  selectedAlternative?: number;
+}
+
+/**
+ * Makes one version of a reply the canonical one
+ * Copies its fields onto the message so readers of `content` need no changes
+ * @param message - Assistant message, updated in place
+ * @param index - Index into `alternatives`
+ * @returns Whether the index was valid
+ */
+export function selectAlternative(message: AlternativeMessage, index: number): boolean {
+  const alternative = message.alternatives?.[index];
+  if (!alternative) return false;
+
+  message.selectedAlternative = index;
+  message.content = alternative.content;
+  message.timestamp = alternative.timestamp;
+  message.context = alternative.context;
+  message.citations = alternative.citations;
+  message.stopped = alternative.stopped;
+  return true;
+}
+
+/**
+ * Stores a newly generated version of a reply and selects it
+ * The original reply is kept as the first alternative
+ * @param message - Assistant message, updated in place
+ * @param alternative - New version
+ */
+export function addAlternative(message: AlternativeMessage, alternative: MessageAlternative): void {
+  if (!message.alternatives?.length) {
+    message.alternatives = [{
+      content: message.content,
+      timestamp: message.timestamp,
+      context: message.context,
+      citations: message.citations,
+      stopped: message.stopped,
+    }];
+  }
+
+  message.alternatives.push(alternative);
+  selectAlternative(message, message.alternatives.length - 1);
+}
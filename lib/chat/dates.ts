@@ -0,0 +1,54 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A run of items that share a date label
+ */
+export interface DateGroup<T> {
+  label: string;
+  items: T[];
+}
+
+/**
+ * Names the period an update time falls into, relative to now
+ * Today, Yesterday, Previous 7 days, Previous 30 days, then months of this year, then years
+ * @param date - Update time to label
+ * @param now - Reference time
+ */
+export function getDateBucket(date: Date, now: Date = new Date()): string {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const time = date.getTime();
+
+  if (time >= startOfToday) return 'Today';
+  if (time >= startOfToday - DAY_MS) return 'Yesterday';
+  if (time >= startOfToday - 7 * DAY_MS) return 'Previous 7 days';
+  if (time >= startOfToday - 30 * DAY_MS) return 'Previous 30 days';
+  if (date.getFullYear() === now.getFullYear()) {
+    return date.toLocaleString('en-US', { month: 'long' });
+  }
+  return String(date.getFullYear());
+}
+
+/**
+ * Splits items sorted newest first into consecutive date groups
+ * @param items - Items with an update time, newest first
+ * @param now - Reference time
+ */
+export function groupByDate<T extends { updatedAt: string | Date }>(
+  items: T[],
+  now: Date = new Date()
+): DateGroup<T>[] {
+  const groups: DateGroup<T>[] = [];
+
+  for (const item of items) {
+    const label = getDateBucket(new Date(item.updatedAt), now);
+    const lastGroup = groups[groups.length - 1];
+
+    if (lastGroup?.label === label) {
+      lastGroup.items.push(item);
+    } else {
+      groups.push({ label, items: [item] });
+    }
+  }
+
+  return groups;
+}
@@ -0,0 +1,209 @@
+/**
+ * Resumable generation of assistant replies
+ * Runs the model, forwards its deltas as Server-Sent Events and persists progress to a
+ * stream session, so a reply survives reloads and can be stopped from another request.
+ * Routes decide what the model sees and how the finished, stopped or failed reply is stored
+ */
+import { randomUUID } from 'crypto';
+import { NextRequest } from 'next/server';
+import StreamSession, { StreamStatus } from '@/lib/models/StreamSession';
+import { formatSSE } from '@/lib/sse';
+import {
+  STREAM_FLUSH_INTERVAL_MS,
+  STREAM_HEARTBEAT_INTERVAL_MS,
+  trackGeneration,
+  untrackGeneration,
+} from '@/lib/streams';
+import { GenerationOptions, LLMMessage, LLMProvider } from '@/lib/llm';
+
+/** Reply used when the model streamed nothing */
+const EMPTY_RESPONSE_FALLBACK =
+  'I received your message but there was an issue with the streaming response. Please try again.';
+
+/**
+ * Sends an SSE event; `id` is the content offset reached after the event
+ */
+export type SendEvent = (payload: Record<string, unknown>, id?: number) => void;
+
+/**
+ * GenerationRequest interface
+ * The model call prepared by a route
+ */
+export interface GenerationRequest {
+  provider: LLMProvider;
+  messages: LLMMessage[];
+  options: GenerationOptions;
+}
+
+/**
+ * GenerationHandlers interface
+ * Route-specific steps of a generation; the returned payloads become the final events
+ * and the stored result of the stream session
+ */
+export interface GenerationHandlers {
+  /** First event, sent with the stream id before the model is called */
+  startEvent: Record<string, unknown>;
+  /** Builds the model request, e.g. retrieval and fitting the context window */
+  prepare: () => Promise<GenerationRequest>;
+  /** Stores the finished reply and returns the `complete` payload */
+  onComplete: (content: string) => Promise<Record<string, unknown>>;
+  /** Stores whatever was produced before a stop and returns the `stopped` payload */
+  onStopped: (content: string) => Promise<Record<string, unknown>>;
+  /** Records a failed generation and returns the `error` payload */
+  onError: (error: unknown) => Promise<Record<string, unknown>>;
+  /** Runs after the `complete` event, e.g. to title a new chat */
+  afterComplete?: (send: SendEvent, streamId: string) => Promise<void>;
+}
+
+/**
+ * Starts a generation and returns its SSE response
+ * Generation outlives the request once the client has its stream id; after that only an
+ * explicit stop aborts it. Event ids are offsets into the generated content for use as Last-Event-ID
+ * @param request - Incoming request, watched for client disconnects
+ * @param owner - Chat and user the stream session belongs to
+ * @param handlers - Route-specific steps
+ */
+export async function createGenerationStream(
+  request: NextRequest,
+  { chatId, userId }: { chatId: string; userId: string },
+  handlers: GenerationHandlers
+): Promise<Response> {
+  const streamId = randomUUID();
+  await StreamSession.create({ streamId, chatId, userId });
+
+  const upstream = new AbortController();
+  trackGeneration(streamId, upstream);
+
+  let clientConnected = true;
+  // Set once the start event, which carries the stream id, has been handed to the client
+  let started = false;
+  const onDisconnect = () => {
+    clientConnected = false;
+    // Without the stream id the client cannot stop or resume the generation, so a
+    // disconnect before the start event cancels it
+    if (!started) upstream.abort();
+  };
+  if (request.signal.aborted) {
+    onDisconnect();
+  } else {
+    request.signal.addEventListener('abort', onDisconnect);
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send: SendEvent = (payload, id) => {
+        if (!clientConnected) return;
+        try {
+          controller.enqueue(encoder.encode(formatSSE(payload, { id })));
+        } catch {
+          clientConnected = false;
+        }
+      };
+
+      let fullResponse = '';
+      let lastFlush = Date.now();
+
+      /**
+       * Writes the partial response to the stream session
+       * Aborts generation if the session was stopped from another request
+       */
+      const flush = async () => {
+        lastFlush = Date.now();
+        const session = await StreamSession.findOneAndUpdate(
+          { streamId, status: 'streaming' },
+          { $set: { content: fullResponse, updatedAt: new Date() } }
+        );
+        if (!session) upstream.abort();
+      };
+
+      /**
+       * Records the final state of the stream session for resuming clients
+       * @param status - Terminal status
+       * @param result - Payload of the final event
+       */
+      const finish = (status: StreamStatus, result: Record<string, unknown>) =>
+        StreamSession.updateOne(
+          { streamId },
+          { $set: { status, result, content: fullResponse, updatedAt: new Date() } }
+        );
+
+      // Keeps the session from looking abandoned while nothing is flushed
+      const heartbeat = setInterval(() => {
+        StreamSession.updateOne({ streamId, status: 'streaming' }, { $set: { updatedAt: new Date() } })
+          .catch(error => console.error('Stream heartbeat failed:', error));
+      }, STREAM_HEARTBEAT_INTERVAL_MS);
+
+      try {
+        send({ ...handlers.startEvent, streamId }, 0);
+        started = clientConnected;
+        if (!started) upstream.abort();
+        // Skips the model call for a client that left early; handled like a stop
+        upstream.signal.throwIfAborted();
+
+        const { provider, messages, options } = await handlers.prepare();
+        console.log(`🤖 Sending streaming request to ${provider.name}...`);
+
+        const deltas = provider.stream(messages, {
+          ...options,
+          signal: upstream.signal,
+        });
+
+        for await (const content of deltas) {
+          fullResponse += content;
+          // Forward each delta as soon as it arrives
+          send({ type: 'chunk', content }, fullResponse.length);
+
+          if (Date.now() - lastFlush >= STREAM_FLUSH_INTERVAL_MS) {
+            await flush();
+          }
+        }
+
+        if (!fullResponse) {
+          fullResponse = EMPTY_RESPONSE_FALLBACK;
+          send({ type: 'chunk', content: fullResponse }, fullResponse.length);
+        }
+
+        const completion = await handlers.onComplete(fullResponse);
+        await finish('complete', completion);
+        send({ type: 'complete', ...completion }, fullResponse.length);
+
+        await handlers.afterComplete?.(send, streamId);
+      } catch (error) {
+        if (upstream.signal.aborted) {
+          // Client stopped the generation, keep whatever was produced so far
+          console.log('⏹️ Generation stopped by client');
+          const result = await handlers.onStopped(fullResponse);
+          await finish('stopped', result);
+          send({ type: 'stopped', ...result }, fullResponse.length);
+          return;
+        }
+
+        console.error('Streaming error:', error);
+        const failure = await handlers.onError(error);
+        await finish('error', failure);
+        send({ type: 'error', ...failure });
+      } finally {
+        clearInterval(heartbeat);
+        untrackGeneration(streamId);
+        try {
+          controller.close();
+        } catch {
+          // Stream was already cancelled by the client
+        }
+      }
+    },
+    cancel() {
+      clientConnected = false;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Stream-Id': streamId,
+    },
+  });
+}
@@ -0,0 +1,41 @@
+/**
+ * Number of chats returned per page when the client does not ask for a size
+ */
+export const CHAT_PAGE_SIZE = 30;
+
+/**
+ * Largest page size a client may request
+ */
+export const CHAT_PAGE_MAX_SIZE = 100;
+
+/**
+ * Position in the chat list, ordered by update time then id, both descending
+ */
+export interface ChatCursor {
+  updatedAt: Date;
+  id: string;
+}
+
+/**
+ * Encodes the position after a chat as an opaque cursor string
+ * @param chat - Last chat of the current page
+ */
+export function encodeChatCursor(chat: { updatedAt: Date; _id: unknown }): string {
+  return Buffer.from(`${chat.updatedAt.toISOString()}|${String(chat._id)}`).toString('base64url');
+}
+
+/**
+ * Decodes a cursor produced by encodeChatCursor
+ * @param cursor - Cursor string from the query
+ * @returns The position, or null if the cursor is malformed
+ */
+export function decodeChatCursor(cursor: string): ChatCursor | null {
+  const [timestamp, id] = Buffer.from(cursor, 'base64url').toString().split('|');
+  const updatedAt = new Date(timestamp);
+
+  if (!id || !/^[0-9a-f]{24}$/i.test(id) || Number.isNaN(updatedAt.getTime())) {
+    return null;
+  }
+
+  return { updatedAt, id };
+}
@@ -0,0 +1,79 @@
+import { ProjectInput } from '@/lib/types/chat';
+import { CUSTOM_INSTRUCTIONS_MAX_LENGTH } from '@/lib/llm/config';
+
+/**
+ * Longest name accepted for a project
+ */
+export const PROJECT_NAME_MAX_LENGTH = 50;
+
+/**
+ * Colors a project can be tagged with; the first is the default
+ */
+export const PROJECT_COLORS: readonly string[] = [
+  '#64748b',
+  '#ef4444',
+  '#f97316',
+  '#eab308',
+  '#22c55e',
+  '#14b8a6',
+  '#3b82f6',
+  '#8b5cf6',
+  '#ec4899',
+];
+
+/**
+ * Validates project fields received from a client
+ * Returns the cleaned fields or a message describing the first invalid one
+ * @param input - Untrusted project object from the request body
+ * @param options - `partial` allows the name to be omitted, for updates
+ */
+export function validateProjectInput(
+  input: unknown,
+  { partial = false }: { partial?: boolean } = {}
+): { project: ProjectInput; error?: undefined } | { project?: undefined; error: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Project must be an object' };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const project: ProjectInput = {};
+
+  if (raw.name !== undefined || !partial) {
+    if (typeof raw.name !== 'string' || !raw.name.trim()) {
+      return { error: 'Project name is required' };
+    }
+    if (raw.name.trim().length > PROJECT_NAME_MAX_LENGTH) {
+      return { error: `Project name must be at most ${PROJECT_NAME_MAX_LENGTH} characters` };
+    }
+    project.name = raw.name.trim();
+  }
+
+  if (raw.color !== undefined) {
+    if (typeof raw.color !== 'string' || !PROJECT_COLORS.includes(raw.color)) {
+      return { error: 'Color must be one of the project colors' };
+    }
+    project.color = raw.color;
+  }
+
+  if (raw.customInstructions !== undefined) {
+    if (typeof raw.customInstructions !== 'string') {
+      return { error: 'Custom instructions must be a string' };
+    }
+    if (raw.customInstructions.length > CUSTOM_INSTRUCTIONS_MAX_LENGTH) {
+      return { error: `Custom instructions must be at most ${CUSTOM_INSTRUCTIONS_MAX_LENGTH} characters` };
+    }
+    project.customInstructions = raw.customInstructions.trim();
+  }
+
+  if (raw.defaultModel !== undefined) {
+    if (raw.defaultModel === null || raw.defaultModel === '') {
+      project.defaultModel = null;
+    } else if (typeof raw.defaultModel !== 'string') {
+      return { error: 'Default model must be a string' };
+    } else {
+      project.defaultModel = raw.defaultModel;
+    }
+  }
+
+  return { project };
+}
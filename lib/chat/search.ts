@@ -0,0 +1,81 @@
+import { SearchHighlight } from '@/lib/types/chat';
+
+/**
+ * Longest search query accepted
+ */
+export const SEARCH_QUERY_MAX_LENGTH = 200;
+
+/**
+ * Characters of context kept before the first hit in a snippet
+ */
+const SNIPPET_CONTEXT_BEFORE = 40;
+
+/**
+ * Total length of a snippet, excluding ellipses
+ */
+const SNIPPET_LENGTH = 160;
+
+/**
+ * Splits a query into the lowercase words used for highlighting
+ * @param query - Raw search query
+ */
+export function getSearchTerms(query: string): string[] {
+  const words = query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  return Array.from(new Set(words));
+}
+
+/**
+ * Finds every occurrence of the search terms in a text
+ * Matching is case-insensitive and also matches longer words starting with a term
+ * @param text - Text to search
+ * @param terms - Terms from getSearchTerms
+ */
+export function findHighlights(text: string, terms: string[]): SearchHighlight[] {
+  if (!terms.length) return [];
+
+  const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(escaped.join('|'), 'gi');
+  const highlights: SearchHighlight[] = [];
+
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    highlights.push({ start: match.index, end: match.index + match[0].length });
+  }
+
+  return highlights;
+}
+
+/**
+ * Cuts an excerpt of a message around its first search hit
+ * @param content - Message content
+ * @param terms - Terms from getSearchTerms
+ * @returns The excerpt with highlights relative to it, or null if nothing matches
+ */
+export function buildSnippet(
+  content: string,
+  terms: string[]
+): { snippet: string; offset: number; highlights: SearchHighlight[] } | null {
+  const [firstHit] = findHighlights(content, terms);
+  if (!firstHit) return null;
+
+  let start = Math.max(0, firstHit.start - SNIPPET_CONTEXT_BEFORE);
+  // Start on a word boundary unless that would skip past the hit
+  const nextSpace = content.indexOf(' ', start);
+  if (start > 0 && nextSpace !== -1 && nextSpace < firstHit.start) {
+    start = nextSpace + 1;
+  }
+  const end = Math.min(content.length, start + SNIPPET_LENGTH);
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < content.length ? '…' : '';
+  // Newlines are swapped for spaces so offsets stay the same
+  const excerpt = content.slice(start, end).replace(/\s/g, ' ');
+
+  return {
+    snippet: `${prefix}${excerpt}${suffix}`,
+    offset: start,
+    highlights: findHighlights(excerpt, terms).map(({ start: from, end: to }) => ({
+      start: from + prefix.length,
+      end: to + prefix.length,
+    })),
+  };
+}
@@ -0,0 +1,49 @@
+import type { Model } from 'mongoose';
+import type { IChat } from '@/lib/models/Chat';
+
+/**
+ * Title given to chats before the first exchange
+ */
+export const DEFAULT_CHAT_TITLE = 'New Chat';
+
+/**
+ * Longest title stored for a chat
+ */
+export const CHAT_TITLE_MAX_LENGTH = 50;
+
+/**
+ * Shortens a title to the maximum length, adding an ellipsis when cut
+ * @param title - Title to shorten
+ */
+export function clampTitle(title: string): string {
+  return title.length > CHAT_TITLE_MAX_LENGTH
+    ? title.substring(0, CHAT_TITLE_MAX_LENGTH - 3) + '...'
+    : title;
+}
+
+/**
+ * Builds a title from the first six words of a message
+ * Used until, or instead of, a model-generated title
+ * @param message - First user message
+ */
+export function getFallbackTitle(message: string): string {
+  const firstWords = message.trim().split(/\s+/).slice(0, 6).join(' ');
+  return firstWords ? clampTitle(firstWords) : DEFAULT_CHAT_TITLE;
+}
+
+/**
+ * Replaces an automatic title unless the chat was renamed in the meantime
+ * Only the title is written, so other changes made while a title was generated are kept;
+ * the model is reached through the document so client code can import this module
+ * @param chat - Chat to title
+ * @param expected - Title the chat had when it was loaded or last titled
+ * @param title - New title
+ * @returns Whether the title was replaced
+ */
+export async function replaceAutomaticTitle(chat: IChat, expected: string, title: string): Promise<boolean> {
+  const result = await chat.$model<Model<IChat>>().updateOne(
+    { _id: chat._id, title: expected, deletedAt: null },
+    { $set: { title } }
+  );
+  return result.matchedCount > 0;
+}
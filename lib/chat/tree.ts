@@ -0,0 +1,139 @@
+import { MessageBranch } from '@/lib/types/chat';
+
+/**
+ * The fields of a stored message needed to walk the conversation tree
+ * Ids may be ObjectIds or strings; they are compared by string value
+ */
+export interface TreeMessage {
+  _id?: unknown;
+  parentId?: unknown;
+}
+
+/**
+ * The tree fields of a chat document
+ */
+export interface MessageTree<T extends TreeMessage> {
+  messages: T[];
+  currentLeafId?: unknown;
+}
+
+/**
+ * Normalises an id to its string form, or null for a root
+ * @param id - ObjectId, string or empty value
+ */
+export const toId = (id: unknown): string | null => (id == null ? null : String(id));
+
+/**
+ * Links messages stored before branching existed into a single path
+ * Chats without a current leaf are treated as linear; the document is updated in place
+ * @param chat - Chat document
+ */
+export function normalizeMessageTree<T extends TreeMessage>(chat: MessageTree<T>): void {
+  if (chat.currentLeafId || chat.messages.length === 0) return;
+
+  chat.messages.forEach((message, index) => {
+    message.parentId = index > 0 ? chat.messages[index - 1]._id : null;
+  });
+  chat.currentLeafId = chat.messages[chat.messages.length - 1]._id;
+}
+
+/**
+ * Returns the messages from the root down to the given message
+ * @param messages - All messages of the chat
+ * @param messageId - Last message of the path
+ */
+export function getPathToMessage<T extends TreeMessage>(messages: T[], messageId: unknown): T[] {
+  const byId = new Map(messages.map(message => [toId(message._id), message]));
+  const path: T[] = [];
+
+  let current = byId.get(toId(messageId));
+  while (current && path.length < messages.length) {
+    path.unshift(current);
+    current = byId.get(toId(current.parentId));
+  }
+
+  return path;
+}
+
+/**
+ * Returns the messages that share a parent, in creation order
+ * @param messages - All messages of the chat
+ * @param parentId - Parent id, or null for root messages
+ */
+export function getChildren<T extends TreeMessage>(messages: T[], parentId: unknown): T[] {
+  const id = toId(parentId);
+  return messages.filter(message => toId(message.parentId) === id);
+}
+
+/**
+ * Follows the most recent child from a message down to a leaf
+ * Used when switching to a branch so its latest continuation is shown
+ * @param messages - All messages of the chat
+ * @param messageId - Message to start from
+ */
+export function findLatestLeaf<T extends TreeMessage>(messages: T[], messageId: unknown): unknown {
+  let leafId = messageId;
+  let children = getChildren(messages, leafId);
+
+  while (children.length > 0) {
+    leafId = children[children.length - 1]._id;
+    children = getChildren(messages, leafId);
+  }
+
+  return leafId;
+}
+
+/**
+ * Returns the ids of a message and all of its descendants
+ * @param messages - All messages of the chat
+ * @param messageId - Root of the subtree
+ */
+export function collectSubtreeIds<T extends TreeMessage>(messages: T[], messageId: unknown): Set<string> {
+  const ids = new Set<string>();
+  const pending = [toId(messageId)];
+
+  while (pending.length > 0) {
+    const id = pending.pop();
+    if (!id) continue;
+
+    ids.add(id);
+    for (const child of getChildren(messages, id)) {
+      pending.push(toId(child._id));
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Describes a message's position among its siblings
+ * Returns undefined when the message has no alternatives
+ * @param messages - All messages of the chat
+ * @param message - Message to describe
+ */
+export function getBranchInfo<T extends TreeMessage>(messages: T[], message: T): MessageBranch | undefined {
+  const siblings = getChildren(messages, message.parentId);
+  if (siblings.length < 2) return undefined;
+
+  const siblingIds = siblings.map(sibling => String(sibling._id));
+  return {
+    index: siblingIds.indexOf(String(message._id)),
+    total: siblingIds.length,
+    siblingIds,
+  };
+}
+
+/**
+ * Returns the active path of a chat, annotating messages that have sibling branches
+ * Expects plain objects, e.g. from `.lean()` or `.toObject()`
+ * @param chat - Plain chat object
+ */
+export function getActiveThread<T extends TreeMessage>(chat: MessageTree<T>): (T & { branch?: MessageBranch })[] {
+  // Chats created before branching are a single linear path
+  if (!chat.currentLeafId) return chat.messages;
+
+  return getPathToMessage(chat.messages, chat.currentLeafId).map(message => {
+    const branch = getBranchInfo(chat.messages, message);
+    return branch ? { ...message, branch } : message;
+  });
+}
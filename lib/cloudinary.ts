@@ -1,4 +1,5 @@
 import { v2 as cloudinary } from 'cloudinary';
+import { UploadedFile } from '@/lib/types/chat';
 
 cloudinary.config({
   cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
@@ -6,19 +7,6 @@ cloudinary.config({
   api_secret: process.env.CLOUDINARY_API_SECRET,
 });
 
-/**
- * UploadedFile interface
- * Represents file metadata before Cloudinary upload
- */
-export interface UploadedFile {
-  uuid: string;
-  name: string;
-  size: number;
-  mimeType: string;
-  cdnUrl: string;
-  originalUrl: string;
-}
-
 /**
  * CloudinaryUploadResult interface
  * Response structure from Cloudinary after successful upload
@@ -66,13 +54,28 @@ export async function uploadToCloudinary(file: UploadedFile): Promise<Cloudinary
   }
 }
 
+/**
+ * Maps a MIME type to the Cloudinary resource type an 'auto' upload stores it as
+ * Cloudinary keeps PDFs as images and audio as video
+ * @param mimeType - MIME type of the uploaded file
+ */
+export function getCloudinaryResourceType(mimeType: string): 'image' | 'video' | 'raw' {
+  if (mimeType.startsWith('image/') || mimeType === 'application/pdf') return 'image';
+  if (mimeType.startsWith('video/') || mimeType.startsWith('audio/')) return 'video';
+  return 'raw';
+}
+
 /**
  * Deletes a file from Cloudinary by public ID
  * @param publicId - Cloudinary public ID of the file to delete
+ * @param resourceType - Resource type the file was stored as, defaults to image
  */
-export async function deleteFromCloudinary(publicId: string): Promise<void> {
+export async function deleteFromCloudinary(
+  publicId: string,
+  resourceType: 'image' | 'video' | 'raw' = 'image'
+): Promise<void> {
   try {
-    await cloudinary.uploader.destroy(publicId);
+    await cloudinary.uploader.destroy(publicId, { resource_type: resourceType });
   } catch (error) {
     console.error('Cloudinary delete error:', error);
     throw new Error('Failed to delete file from Cloudinary');
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { readFileFromUrl } from './contents';
+
+const CDN_URL = 'https://res.cloudinary.com/demo/raw/upload/notes.txt';
+
+/**
+ * Builds a data URL holding the given text
+ * @param text - File contents
+ */
+function dataUrl(text: string): string {
+  return `data:text/plain;base64,${Buffer.from(text).toString('base64')}`;
+}
+
+/**
+ * Builds a response that streams its body in chunks, without a Content-Length
+ * @param chunks - Body chunks
+ * @param onPull - Called for every chunk read
+ */
+function chunkedResponse(chunks: string[], onPull: () => void): Response {
+  const encoder = new TextEncoder();
+  let index = 0;
+  return new Response(new ReadableStream({
+    pull(controller) {
+      onPull();
+      if (index < chunks.length) {
+        controller.enqueue(encoder.encode(chunks[index++]));
+      } else {
+        controller.close();
+      }
+    },
+  }));
+}
+
+describe('readFileFromUrl', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('decodes data URLs within the limit', async () => {
+    const contents = await readFileFromUrl(dataUrl('hello'), 5);
+    expect(contents?.toString('utf-8')).toBe('hello');
+  });
+
+  it('returns null for data URLs past the limit', async () => {
+    expect(await readFileFromUrl(dataUrl('hello world'), 5)).toBeNull();
+  });
+
+  it('refuses hosts other than our own storage', async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal('fetch', fetch);
+
+    await expect(readFileFromUrl('http://169.254.169.254/latest/meta-data', 100)).rejects.toThrow();
+    await expect(readFileFromUrl('http://res.cloudinary.com/demo/notes.txt', 100)).rejects.toThrow();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('reads remote files within the limit', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => chunkedResponse(['hel', 'lo'], () => {})));
+
+    const contents = await readFileFromUrl(CDN_URL, 5);
+    expect(contents?.toString('utf-8')).toBe('hello');
+  });
+
+  it('stops reading remote files once past the limit', async () => {
+    let pulls = 0;
+    const chunks = Array.from({ length: 100 }, () => 'xxxx');
+    vi.stubGlobal('fetch', vi.fn(async () => chunkedResponse(chunks, () => pulls++)));
+
+    expect(await readFileFromUrl(CDN_URL, 10)).toBeNull();
+    expect(pulls).toBeLessThan(10);
+  });
+
+  it('skips remote files whose declared length is past the limit', async () => {
+    const response = new Response('hello world', { headers: { 'Content-Length': '11' } });
+    vi.stubGlobal('fetch', vi.fn(async () => response));
+
+    expect(await readFileFromUrl(CDN_URL, 5)).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+// Host attachments are stored on; other URLs sent by the client are never fetched
+const TRUSTED_FILE_HOST = 'res.cloudinary.com';
+
+/**
+ * Whether a file URL is inline data or points at our own storage rather than an arbitrary server
+ * @param url - Data URL or CDN URL of the file
+ */
+export function isTrustedFileUrl(url: string): boolean {
+  if (url.startsWith('data:')) return true;
+
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === 'https:' && hostname === TRUSTED_FILE_HOST;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reads file contents from a data URL or a remote URL on our own storage
+ * The size reported by the client is not trusted; reading stops as soon as the limit is passed
+ * @param url - Data URL or CDN URL of the file
+ * @param maxBytes - Largest file read
+ * @returns The contents, or null when the file is larger than `maxBytes`
+ */
+export async function readFileFromUrl(url: string, maxBytes: number): Promise<Buffer | null> {
+  if (!isTrustedFileUrl(url)) {
+    throw new Error('File URL is not on a trusted host');
+  }
+
+  if (url.startsWith('data:')) {
+    const [, base64Data = ''] = url.split(',');
+    // Checked before decoding, from the length of the base64 text without its padding
+    const padding = base64Data.endsWith('==') ? 2 : base64Data.endsWith('=') ? 1 : 0;
+    if (Math.floor(base64Data.length * 3 / 4) - padding > maxBytes) return null;
+    return Buffer.from(base64Data, 'base64');
+  }
+
+  // A redirect could lead off the trusted host
+  const response = await fetch(url, { redirect: 'error' });
+  if (!response.ok) {
+    throw new Error(`Failed to download file: ${response.status}`);
+  }
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body?.cancel();
+    return null;
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
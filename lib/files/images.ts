@@ -0,0 +1,75 @@
+/**
+ * Prepares image attachments for vision models
+ * Images are downscaled and re-encoded as JPEG, or PNG when they have transparency,
+ * so every provider accepts them and requests stay within payload limits
+ */
+import sharp from 'sharp';
+import { LLMImage, VISION_MAX_IMAGES } from '@/lib/llm';
+import { Attachment } from '@/lib/types/chat';
+import { isTrustedFileUrl, readFileFromUrl } from './contents';
+import { DOCUMENT_MAX_BYTES } from './limits';
+
+/** Longest side of an image sent to a model */
+const IMAGE_MAX_DIMENSION = 1568;
+
+/** Largest encoded image sent to a model */
+const IMAGE_MAX_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Whether an attachment URL points at our own storage rather than an arbitrary server
+ * @param url - Attachment URL
+ */
+function isTrustedImageUrl(url: string): boolean {
+  return url.startsWith('data:') ? url.startsWith('data:image/') : isTrustedFileUrl(url);
+}
+
+/**
+ * Downscales and re-encodes an image for a vision model
+ * Animated images keep their first frame; EXIF rotation is applied
+ * @param data - Image file contents in any format sharp can read
+ */
+export async function prepareImage(data: Buffer): Promise<LLMImage> {
+  const { hasAlpha } = await sharp(data).metadata();
+
+  for (const maxDimension of [IMAGE_MAX_DIMENSION, IMAGE_MAX_DIMENSION / 2]) {
+    const resized = sharp(data)
+      .rotate()
+      .resize({ width: maxDimension, height: maxDimension, fit: 'inside', withoutEnlargement: true });
+    const output = hasAlpha
+      ? await resized.png({ compressionLevel: 9 }).toBuffer()
+      : await resized.jpeg({ quality: 85 }).toBuffer();
+
+    if (output.length <= IMAGE_MAX_BYTES) {
+      return { mimeType: hasAlpha ? 'image/png' : 'image/jpeg', data: output.toString('base64') };
+    }
+  }
+
+  throw new Error('Image is too large to send to the model');
+}
+
+/**
+ * Loads the image attachments of a turn for a vision model
+ * Images that cannot be read are skipped; the model still sees their names
+ * @param files - Attachments of the user turn
+ */
+export async function loadImageAttachments(files?: Attachment[] | null): Promise<LLMImage[]> {
+  const images = (files || [])
+    .filter(file => file.mimeType.startsWith('image/') && file.url && isTrustedImageUrl(file.url))
+    .slice(0, VISION_MAX_IMAGES);
+
+  const results = await Promise.allSettled(
+    images.map(async file => {
+      const data = await readFileFromUrl(file.url!, DOCUMENT_MAX_BYTES);
+      if (!data) throw new Error('Image is too large');
+      return prepareImage(data);
+    })
+  );
+
+  return results.flatMap((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(`Skipped image ${images[index].name}:`, result.reason);
+      return [];
+    }
+    return [result.value];
+  });
+}
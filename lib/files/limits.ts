@@ -0,0 +1,20 @@
+/**
+ * Limits shared by the attachment extractors
+ * They keep a large document from stalling the request or overflowing the message document
+ */
+
+/** Largest document whose contents are extracted */
+export const DOCUMENT_MAX_BYTES = 20 * 1024 * 1024;
+
+/** Characters of extracted text kept per document */
+export const DOCUMENT_TEXT_MAX_CHARS = 100_000;
+
+/**
+ * Cuts extracted text down to the per-document limit
+ * @param text - Extracted text
+ */
+export function clampDocumentText(text: string): { text: string; truncated: boolean } {
+  return text.length > DOCUMENT_TEXT_MAX_CHARS
+    ? { text: text.substring(0, DOCUMENT_TEXT_MAX_CHARS), truncated: true }
+    : { text, truncated: false };
+}
@@ -0,0 +1,128 @@
+/**
+ * Local OCR for screenshots, scans and image-only PDFs
+ * Runs Tesseract in-process with the English model bundled in node_modules, so no
+ * file leaves the server and no language data is downloaded at runtime
+ */
+import path from 'path';
+import sharp, { Sharp } from 'sharp';
+import { createWorker } from 'tesseract.js';
+import { extractImages, getDocumentProxy } from 'unpdf';
+import { clampDocumentText } from './limits';
+
+/** Pages of an image-only PDF that are recognized */
+export const OCR_MAX_PAGES = 10;
+
+/** Recognized text below this confidence (0-100) is treated as noise */
+export const OCR_MIN_CONFIDENCE = 40;
+
+/** Width images are scaled towards before recognition */
+const OCR_TARGET_WIDTH = 2000;
+
+// Trained data shipped by @tesseract.js-data/eng; next.config.ts adds it to the traced output
+const OCR_LANG_PATH = path.join(process.cwd(), 'node_modules', '@tesseract.js-data', 'eng', '4.0.0');
+
+/**
+ * OcrResult interface
+ * Recognized text with Tesseract's mean confidence (0-100)
+ */
+export interface OcrResult {
+  text: string;
+  confidence: number;
+  truncated?: boolean;
+}
+
+/**
+ * Converts an image to a high-contrast greyscale PNG, which Tesseract reads best
+ * Small screenshots are enlarged and large photos reduced to about OCR_TARGET_WIDTH
+ * @param image - sharp pipeline reading the source image
+ */
+function preprocess(image: Sharp): Promise<Buffer> {
+  return image
+    .rotate()
+    .resize({ width: OCR_TARGET_WIDTH, height: OCR_TARGET_WIDTH, fit: 'inside' })
+    .greyscale()
+    .normalize()
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Recognizes a series of prepared images with a single Tesseract worker
+ * @param images - Greyscale PNGs
+ */
+async function recognizeAll(images: Buffer[]): Promise<OcrResult[]> {
+  if (images.length === 0) return [];
+
+  const worker = await createWorker('eng', undefined, {
+    langPath: OCR_LANG_PATH,
+    gzip: true,
+    cacheMethod: 'none',
+  });
+
+  try {
+    const results: OcrResult[] = [];
+    for (const image of images) {
+      const { data } = await worker.recognize(image);
+      results.push({ text: data.text.trim(), confidence: Math.round(data.confidence) });
+    }
+    return results;
+  } finally {
+    await worker.terminate();
+  }
+}
+
+/**
+ * Recognizes the text in an image
+ * @param data - Image file contents in any format sharp can read
+ */
+export async function recognizeImage(data: Buffer): Promise<OcrResult> {
+  const [result] = await recognizeAll([await preprocess(sharp(data))]);
+  return result;
+}
+
+/**
+ * Recognizes the text of a scanned PDF from the largest image on each page
+ * Pages are introduced by `--- Page N ---` lines like extracted PDF text
+ * @param data - PDF file contents
+ * @returns Text of all pages with the confidence averaged over recognized characters
+ */
+export async function recognizePdf(data: Uint8Array): Promise<OcrResult> {
+  const pdf = await getDocumentProxy(data);
+
+  try {
+    const pageNumbers: number[] = [];
+    const images: Buffer[] = [];
+
+    for (let pageNumber = 1; pageNumber <= Math.min(pdf.numPages, OCR_MAX_PAGES); pageNumber++) {
+      const pageImages = await extractImages(pdf, pageNumber);
+      const scan = pageImages.reduce<(typeof pageImages)[number] | null>(
+        (largest, image) => (!largest || image.width * image.height > largest.width * largest.height ? image : largest),
+        null
+      );
+      if (!scan) continue;
+
+      pageNumbers.push(pageNumber);
+      images.push(await preprocess(sharp(Buffer.from(scan.data), {
+        raw: { width: scan.width, height: scan.height, channels: scan.channels },
+      })));
+    }
+
+    const results = await recognizeAll(images);
+    const recognizedChars = results.reduce((total, result) => total + result.text.length, 0);
+    const confidence = recognizedChars > 0
+      ? results.reduce((total, result) => total + result.confidence * result.text.length, 0) / recognizedChars
+      : 0;
+    const text = results
+      .map((result, index) => `--- Page ${pageNumbers[index]} ---\n${result.text}`)
+      .join('\n\n');
+    const clamped = clampDocumentText(recognizedChars > 0 ? text : '');
+
+    return {
+      text: clamped.text,
+      confidence: Math.round(confidence),
+      truncated: clamped.truncated || pdf.numPages > OCR_MAX_PAGES,
+    };
+  } finally {
+    await pdf.loadingTask.destroy();
+  }
+}
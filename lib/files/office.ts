@@ -0,0 +1,75 @@
+/**
+ * Text extraction for Word documents and PowerPoint presentations
+ */
+import JSZip from 'jszip';
+import mammoth from 'mammoth';
+import { clampDocumentText } from './limits';
+
+/**
+ * DocumentExtraction interface
+ * Text of an office document, cut to the shared limit
+ * `slideCount` is only set for presentations
+ */
+export interface DocumentExtraction {
+  text: string;
+  slideCount?: number;
+  truncated: boolean;
+}
+
+// XML entities that appear in slide text
+const XML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+};
+
+/**
+ * Decodes the XML entities of a text run
+ * @param text - Escaped text
+ */
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&(amp|lt|gt|quot|apos);/g, entity => XML_ENTITIES[entity]);
+}
+
+/**
+ * Extracts the raw text of a DOCX file, one paragraph per line
+ * @param data - DOCX file contents
+ */
+export async function extractDocx(data: Buffer): Promise<DocumentExtraction> {
+  const { value } = await mammoth.extractRawText({ buffer: data });
+  return clampDocumentText(value.replace(/\n{3,}/g, '\n\n').trim());
+}
+
+/**
+ * Extracts the text of a PPTX file slide by slide
+ * Each slide is introduced by a `--- Slide N ---` line; paragraphs become lines
+ * @param data - PPTX file contents
+ */
+export async function extractPptx(data: Buffer): Promise<DocumentExtraction> {
+  const zip = await JSZip.loadAsync(data);
+  const slideFiles = Object.keys(zip.files)
+    .map(path => ({ path, match: path.match(/^ppt\/slides\/slide(\d+)\.xml$/) }))
+    .filter(({ match }) => match)
+    .map(({ path, match }) => ({ path, number: Number(match![1]) }))
+    .sort((a, b) => a.number - b.number);
+
+  const slides: string[] = [];
+  for (const [index, slide] of slideFiles.entries()) {
+    const xml = await zip.file(slide.path)!.async('string');
+    const paragraphs = xml.split('</a:p>').map(paragraph =>
+      Array.from(paragraph.matchAll(/<a:t>([^<]*)<\/a:t>/g), run => decodeXmlEntities(run[1])).join('')
+    );
+    const slideText = paragraphs.map(line => line.trim()).filter(Boolean).join('\n');
+    slides.push(`--- Slide ${index + 1} ---\n${slideText}`);
+  }
+
+  return {
+    ...clampDocumentText(slides.join('\n\n')),
+    slideCount: slideFiles.length,
+  };
+}
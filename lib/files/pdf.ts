@@ -0,0 +1,73 @@
+/**
+ * Server-side PDF text extraction for chat attachments
+ * Reading is capped by page count as well as the shared text limit
+ */
+import { getDocumentProxy, getMeta } from 'unpdf';
+import { DOCUMENT_TEXT_MAX_CHARS } from './limits';
+
+/** Pages read from the start of a PDF */
+export const PDF_MAX_PAGES = 50;
+
+/**
+ * PdfExtraction interface
+ * Text of a PDF with the page markers the model sees, plus its document info
+ */
+export interface PdfExtraction {
+  text: string;
+  pageCount: number;
+  title?: string;
+  author?: string;
+  hasText: boolean;
+  truncated: boolean;
+}
+
+/**
+ * Extracts the text of a PDF page by page
+ * Each page is introduced by a `--- Page N ---` line so answers can cite pages
+ * @param data - PDF file contents
+ */
+export async function extractPdf(data: Uint8Array): Promise<PdfExtraction> {
+  const pdf = await getDocumentProxy(data);
+
+  try {
+    const pageCount = pdf.numPages;
+    const pages: string[] = [];
+    let length = 0;
+    let hasText = false;
+    let truncated = pageCount > PDF_MAX_PAGES;
+
+    for (let pageNumber = 1; pageNumber <= Math.min(pageCount, PDF_MAX_PAGES); pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const pageText = content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+        .join('')
+        .replace(/[ \t]+\n/g, '\n')
+        .trim();
+      hasText = hasText || pageText.length > 0;
+
+      const section = `--- Page ${pageNumber} ---\n${pageText}`;
+      if (length + section.length > DOCUMENT_TEXT_MAX_CHARS) {
+        pages.push(section.substring(0, Math.max(0, DOCUMENT_TEXT_MAX_CHARS - length)));
+        truncated = true;
+        break;
+      }
+
+      pages.push(section);
+      length += section.length;
+    }
+
+    const { info } = await getMeta(pdf);
+
+    return {
+      text: pages.join('\n\n'),
+      pageCount,
+      title: typeof info?.Title === 'string' && info.Title.trim() ? info.Title.trim() : undefined,
+      author: typeof info?.Author === 'string' && info.Author.trim() ? info.Author.trim() : undefined,
+      hasText,
+      truncated,
+    };
+  } finally {
+    await pdf.loadingTask.destroy();
+  }
+}
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Attachment } from '@/lib/types/chat';
+import { signAttachment, verifyAttachments } from './signing';
+
+/**
+ * Builds an attachment stored on Cloudinary
+ * @param publicId - Cloudinary public ID
+ */
+function cloudinaryAttachment(publicId: string): Attachment {
+  return { uuid: 'file-1', name: 'notes.pdf', size: 10, mimeType: 'application/pdf', publicId };
+}
+
+describe('verifyAttachments', () => {
+  const secret = process.env.CLOUDINARY_API_SECRET;
+
+  beforeEach(() => {
+    process.env.CLOUDINARY_API_SECRET = 'test-secret';
+  });
+
+  afterEach(() => {
+    if (secret === undefined) {
+      delete process.env.CLOUDINARY_API_SECRET;
+    } else {
+      process.env.CLOUDINARY_API_SECRET = secret;
+    }
+  });
+
+  it('keeps a signed publicId and drops the signature', () => {
+    const attachment = cloudinaryAttachment('chat_files/file-1');
+    signAttachment('user_a', attachment);
+
+    const [verified] = verifyAttachments('user_a', [attachment])!;
+    expect(verified.publicId).toBe('chat_files/file-1');
+    expect(verified).not.toHaveProperty('signature');
+  });
+
+  it('drops a publicId without a valid signature', () => {
+    const forged = { ...cloudinaryAttachment('someone_elses/asset'), signature: 'f'.repeat(64) };
+    expect(verifyAttachments('user_a', [forged])![0].publicId).toBeUndefined();
+    expect(verifyAttachments('user_a', [cloudinaryAttachment('chat_files/file-1')])![0].publicId).toBeUndefined();
+  });
+
+  it('drops a publicId signed for another user or file', () => {
+    const attachment = cloudinaryAttachment('chat_files/file-1');
+    signAttachment('user_a', attachment);
+
+    expect(verifyAttachments('user_b', [attachment])![0].publicId).toBeUndefined();
+    expect(verifyAttachments('user_a', [{ ...attachment, publicId: 'chat_files/other' }])![0].publicId).toBeUndefined();
+  });
+
+  it('drops every publicId when no signing secret is configured', () => {
+    const attachment = cloudinaryAttachment('chat_files/file-1');
+    signAttachment('user_a', attachment);
+    delete process.env.CLOUDINARY_API_SECRET;
+
+    expect(verifyAttachments('user_a', [attachment])![0].publicId).toBeUndefined();
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Signatures on the Cloudinary files of attachments
+ * /api/files/process signs each file it uploads for the requesting user; messages only keep
+ * a `publicId` with a valid signature, so a forged one can never reach a Cloudinary delete
+ */
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Attachment } from '@/lib/types/chat';
+
+/**
+ * Computes the signature binding a Cloudinary file to a user and attachment
+ * Keyed with the Cloudinary API secret, which any deployment storing files has
+ * @param userId - Clerk user id the file was uploaded for
+ * @param attachment - Attachment with its uuid and publicId
+ */
+function computeSignature(userId: string, attachment: Pick<Attachment, 'uuid' | 'publicId'>): string | null {
+  const secret = process.env.CLOUDINARY_API_SECRET;
+  if (!secret || !attachment.publicId) return null;
+
+  return createHmac('sha256', secret)
+    .update(`${userId}:${attachment.uuid}:${attachment.publicId}`)
+    .digest('hex');
+}
+
+/**
+ * Signs the Cloudinary file of a processed attachment
+ * @param userId - Clerk user id the file was uploaded for
+ * @param attachment - Processed attachment, updated in place
+ */
+export function signAttachment(userId: string, attachment: Attachment): void {
+  attachment.signature = computeSignature(userId, attachment) ?? undefined;
+}
+
+/**
+ * Checks the attachments sent with a message before they are stored
+ * Files whose signature does not match lose their `publicId`; signatures are not stored
+ * @param userId - Clerk user id sending the message
+ * @param files - Attachments as sent by the client
+ */
+export function verifyAttachments(userId: string, files?: Attachment[] | null): Attachment[] | undefined {
+  if (!files || files.length === 0) return undefined;
+
+  return files.map(({ signature, ...file }) => {
+    if (!file.publicId) return file;
+
+    const expected = computeSignature(userId, file);
+    const valid = !!expected && !!signature && signature.length === expected.length &&
+      timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+    if (valid) return file;
+
+    console.warn(`⚠️ Dropped unsigned Cloudinary file from attachment ${file.uuid}`);
+    return { ...file, publicId: undefined };
+  });
+}
@@ -0,0 +1,198 @@
+/**
+ * Schema summaries of CSV and XLSX attachments
+ * Instead of the raw cells the model gets, per sheet, the columns with their inferred
+ * types, the row count and a few sample rows
+ */
+import ExcelJS from 'exceljs';
+import Papa from 'papaparse';
+import { clampDocumentText } from './limits';
+
+export type ColumnType = 'number' | 'boolean' | 'date' | 'text' | 'empty';
+
+type TableValue = string | number | boolean | Date | null;
+
+/** Data rows shown as samples for each sheet */
+const SAMPLE_ROW_COUNT = 5;
+
+/** Data rows looked at when inferring column types */
+const TYPE_INFERENCE_ROWS = 1000;
+
+/** Columns described per sheet */
+const MAX_COLUMNS = 50;
+
+/**
+ * SheetSummary interface
+ * Shape of one table; the first non-empty row is taken as the header
+ */
+export interface SheetSummary {
+  name: string;
+  rowCount: number;
+  columns: { name: string; type: ColumnType }[];
+  sampleRows: TableValue[][];
+}
+
+/**
+ * SpreadsheetExtraction interface
+ * Summary text handed to the model, with totals across sheets
+ */
+export interface SpreadsheetExtraction {
+  text: string;
+  sheetCount: number;
+  rowCount: number;
+  truncated: boolean;
+}
+
+/**
+ * Infers the type of a single cell
+ * Strings that look like numbers, booleans or dates count as such
+ * @param value - Cell value
+ */
+function inferValueType(value: TableValue): ColumnType {
+  if (value === null) return 'empty';
+  if (value instanceof Date) return 'date';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+
+  const text = value.trim();
+  if (!text) return 'empty';
+  if (/^-?(\d{1,3}(,\d{3})+|\d*)(\.\d+)?(e[+-]?\d+)?$/i.test(text) && /\d/.test(text)) return 'number';
+  if (/^(true|false)$/i.test(text)) return 'boolean';
+  if (/^(\d{4}-\d{1,2}-\d{1,2}([ T][\d:.]+Z?)?|\d{1,2}\/\d{1,2}\/\d{2,4})$/.test(text) && !isNaN(Date.parse(text))) {
+    return 'date';
+  }
+  return 'text';
+}
+
+/**
+ * Infers a column type from its values; columns mixing types are text
+ * @param values - Values of the column
+ */
+function inferColumnType(values: TableValue[]): ColumnType {
+  const types = new Set(values.map(inferValueType));
+  types.delete('empty');
+
+  if (types.size === 0) return 'empty';
+  return types.size === 1 ? types.values().next().value! : 'text';
+}
+
+/**
+ * Formats a cell for the summary text
+ * @param value - Cell value
+ */
+function formatValue(value: TableValue): string {
+  if (value === null) return '';
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.substring(0, 10) : iso;
+  }
+  return String(value).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Summarizes a table given as rows of cells
+ * @param name - Sheet name
+ * @param rows - Rows, header first
+ */
+function summarizeTable(name: string, rows: TableValue[][]): SheetSummary {
+  const nonEmptyRows = rows.filter(row => row.some(value => inferValueType(value) !== 'empty'));
+  const [header = [], ...dataRows] = nonEmptyRows;
+  const width = Math.min(nonEmptyRows.reduce((max, row) => Math.max(max, row.length), 0), MAX_COLUMNS);
+  const inferenceRows = dataRows.slice(0, TYPE_INFERENCE_ROWS);
+
+  return {
+    name,
+    rowCount: dataRows.length,
+    columns: Array.from({ length: width }, (_, index) => ({
+      name: formatValue(header[index] ?? null) || `Column ${index + 1}`,
+      type: inferColumnType(inferenceRows.map(row => row[index] ?? null)),
+    })),
+    sampleRows: dataRows.slice(0, SAMPLE_ROW_COUNT).map(row => row.slice(0, width)),
+  };
+}
+
+/**
+ * Formats the summary of one sheet for the model
+ * @param sheet - Sheet summary
+ */
+function formatSheetSummary(sheet: SheetSummary): string {
+  if (sheet.columns.length === 0) {
+    return `Sheet: ${sheet.name} (empty)`;
+  }
+
+  const lines = [
+    `Sheet: ${sheet.name} (${sheet.rowCount} rows, ${sheet.columns.length} columns)`,
+    `Columns: ${sheet.columns.map(column => `${column.name} (${column.type})`).join(', ')}`,
+  ];
+
+  if (sheet.sampleRows.length > 0) {
+    lines.push(
+      'Sample rows:',
+      sheet.columns.map(column => column.name).join(' | '),
+      ...sheet.sampleRows.map(row =>
+        sheet.columns.map((_, index) => formatValue(row[index] ?? null)).join(' | ')
+      )
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Joins sheet summaries into the text handed to the model
+ * @param sheets - Sheet summaries
+ */
+function buildExtraction(sheets: SheetSummary[]): SpreadsheetExtraction {
+  return {
+    ...clampDocumentText(sheets.map(formatSheetSummary).join('\n\n')),
+    sheetCount: sheets.length,
+    rowCount: sheets.reduce((total, sheet) => total + sheet.rowCount, 0),
+  };
+}
+
+/**
+ * Summarizes a CSV file
+ * @param text - CSV contents
+ * @param name - File name, used as the sheet name
+ */
+export function summarizeCsv(text: string, name: string): SpreadsheetExtraction {
+  const { data } = Papa.parse<TableValue[]>(text, {
+    skipEmptyLines: 'greedy',
+    dynamicTyping: true,
+  });
+  return buildExtraction([summarizeTable(name, data)]);
+}
+
+/**
+ * Reduces an ExcelJS cell to a plain value
+ * Formulas become their cached result; rich text and links become their text
+ * @param value - Cell value
+ */
+function normalizeCellValue(value: ExcelJS.CellValue): TableValue {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date || typeof value !== 'object') return value;
+  if ('result' in value) return normalizeCellValue(value.result ?? null);
+  if ('richText' in value) return value.richText.map(run => run.text).join('');
+  if ('text' in value) return value.text;
+  if ('error' in value) return value.error;
+  return null;
+}
+
+/**
+ * Summarizes every worksheet of an XLSX file
+ * @param data - XLSX file contents
+ */
+export async function summarizeXlsx(data: Buffer): Promise<SpreadsheetExtraction> {
+  const workbook = new ExcelJS.Workbook();
+  // ExcelJS types its input as an ArrayBuffer; copy the bytes into one
+  await workbook.xlsx.load(new Uint8Array(data).buffer);
+
+  const sheets = workbook.worksheets.map(worksheet => {
+    const rows: TableValue[][] = [];
+    worksheet.eachRow(row => {
+      const values = Array.isArray(row.values) ? row.values.slice(1) : [];
+      rows.push(Array.from(values, normalizeCellValue));
+    });
+    return summarizeTable(worksheet.name, rows);
+  });
+
+  return buildExtraction(sheets);
+}
@@ -1,28 +1,95 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { ChatData, ChatMessage, ChatSummary } from '@/lib/types/chat';
+import { useState, useEffect, useRef } from 'react';
+import {
+  ChatData,
+  ChatListView,
+  ChatMessage,
+  ChatSettings,
+  ChatSummary,
+  ChatUpdate,
+  UploadedFile,
+} from '@/lib/types/chat';
+import { readSSEEvents } from '@/lib/sse';
+import { DEFAULT_CHAT_TITLE } from '@/lib/chat/title';
+
+/**
+ * Builds the chat list URL for one page
+ * The active list leaves out project chats, which are loaded per project folder
+ * @param view - Which chats to list
+ * @param cursor - Cursor returned with the previous page
+ * @param projectId - Project whose chats to list instead
+ */
+const chatsPageUrl = (view: ChatListView, cursor?: string | null, projectId?: string) => {
+  const params = new URLSearchParams();
+  if (view !== 'active') params.set('view', view);
+  if (cursor) params.set('cursor', cursor);
+  if (view === 'active') params.set('projectId', projectId ?? 'none');
+  const query = params.toString();
+  return query ? `/api/chats?${query}` : '/api/chats';
+};
+
+/**
+ * Inserts a chat into a list sorted by update time, newest first
+ * @param chats - Sorted chat list
+ * @param chat - Chat to insert
+ */
+const insertByUpdatedAt = (chats: ChatSummary[], chat: ChatSummary) => {
+  const index = chats.findIndex(existing => !existing.pinned && existing.updatedAt < chat.updatedAt);
+  return index === -1 ? [...chats, chat] : [...chats.slice(0, index), chat, ...chats.slice(index)];
+};
+
+/**
+ * Adds a page of chats to a list, skipping ones it already has
+ * A chat updated since the last page may already be listed
+ * @param chats - Loaded chats
+ * @param page - Chats to add
+ */
+const appendPage = (chats: ChatSummary[], page: ChatSummary[]) => [
+  ...chats,
+  ...page.filter(chat => !chats.some(existing => existing._id === chat._id)),
+];
+
+/**
+ * ProjectChatList interface
+ * Loaded chats of one project folder
+ */
+export interface ProjectChatList {
+  chats: ChatSummary[];
+  nextCursor: string | null;
+}
 
 /**
  * useChats Hook
- * Manages multiple chat conversations list
- * Handles fetching, creating, and deleting chats
+ * Manages multiple chat conversations list, loaded a page at a time
+ * Handles fetching, creating, renaming, pinning, archiving, deleting and restoring chats
+ * Unpinned chats of a project are kept out of the active list and loaded with `loadProjectChats`
+ * @param options - `view` lists archived chats or the trash instead of active chats
  */
-export function useChats() {
+export function useChats({ view = 'active' }: { view?: ChatListView } = {}) {
   const [chats, setChats] = useState<ChatSummary[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [projectChats, setProjectChats] = useState<Record<string, ProjectChatList>>({});
   const [error, setError] = useState<string | null>(null);
+  // Projects whose next page is being fetched
+  const loadingProjectIds = useRef(new Set<string>());
 
   /**
-   * Fetches all chats for the current user
+   * Fetches the first page of chats for the current user
+   * Project folders are dropped and load again when shown
+   * @param listView - Which chats to fetch
    */
-  const fetchChats = async () => {
+  const fetchChats = async (listView: ChatListView) => {
     try {
       setLoading(true);
-      const response = await fetch('/api/chats');
+      const response = await fetch(chatsPageUrl(listView));
       if (!response.ok) throw new Error('Failed to fetch chats');
       const data = await response.json();
       setChats(data.chats);
+      setNextCursor(data.nextCursor);
+      setProjectChats({});
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load chats');
@@ -31,20 +98,112 @@ export function useChats() {
     }
   };
 
+  /**
+   * Appends the next page of chats, if there is one
+   */
+  const loadMoreChats = async () => {
+    if (!nextCursor || loadingMore) return;
+
+    try {
+      setLoadingMore(true);
+      const response = await fetch(chatsPageUrl(view, nextCursor));
+      if (!response.ok) throw new Error('Failed to fetch chats');
+      const data = await response.json();
+      setChats(prev => appendPage(prev, data.chats));
+      setNextCursor(data.nextCursor);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load chats');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  /**
+   * Loads the first page of a project's chats, or its next page once loaded
+   * @param projectId - ID of project whose chats to load
+   */
+  const loadProjectChats = async (projectId: string) => {
+    const loaded = projectChats[projectId];
+    if ((loaded && !loaded.nextCursor) || loadingProjectIds.current.has(projectId)) return;
+
+    try {
+      loadingProjectIds.current.add(projectId);
+      const response = await fetch(chatsPageUrl(view, loaded?.nextCursor, projectId));
+      if (!response.ok) throw new Error('Failed to fetch chats');
+      const data = await response.json();
+      setProjectChats(prev => ({
+        ...prev,
+        [projectId]: {
+          chats: appendPage(prev[projectId]?.chats ?? [], data.chats),
+          nextCursor: data.nextCursor,
+        },
+      }));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load chats');
+    } finally {
+      loadingProjectIds.current.delete(projectId);
+    }
+  };
+
+  /**
+   * Applies a change to a chat in whichever list holds it
+   * @param chatId - ID of chat to change
+   * @param change - Returns the changed chat
+   */
+  const mapChat = (chatId: string, change: (chat: ChatSummary) => ChatSummary) => {
+    const mapList = (list: ChatSummary[]) => list.map(chat => chat._id === chatId ? change(chat) : chat);
+    setChats(mapList);
+    setProjectChats(prev => Object.fromEntries(
+      Object.entries(prev).map(([projectId, list]) => [projectId, { ...list, chats: mapList(list.chats) }])
+    ));
+  };
+
+  /**
+   * Removes a chat from every list
+   * @param chatId - ID of chat to remove
+   */
+  const removeChat = (chatId: string) => {
+    const removeFrom = (list: ChatSummary[]) => list.filter(chat => chat._id !== chatId);
+    setChats(removeFrom);
+    setProjectChats(prev => Object.fromEntries(
+      Object.entries(prev).map(([projectId, list]) => [projectId, { ...list, chats: removeFrom(list.chats) }])
+    ));
+  };
+
+  /**
+   * Adds a chat to the list it belongs in: the main list, or the folder of its project
+   * A folder that has not been loaded yet picks the chat up when it loads
+   * @param chat - Chat to add
+   */
+  const placeChat = (chat: ChatSummary) => {
+    const projectId = chat.projectId;
+    if (view !== 'active' || chat.pinned || !projectId) {
+      setChats(prev => insertByUpdatedAt(prev, chat));
+      return;
+    }
+    setProjectChats(prev => prev[projectId]
+      ? { ...prev, [projectId]: { ...prev[projectId], chats: insertByUpdatedAt(prev[projectId].chats, chat) } }
+      : prev);
+  };
+
   /**
    * Creates a new chat conversation
    * @param title - Initial title for the chat
+   * @param projectId - Optional project to file the chat under
    */
-  const createChat = async (title: string = 'New Chat') => {
+  const createChat = async (title: string = DEFAULT_CHAT_TITLE, projectId?: string) => {
     try {
       const response = await fetch('/api/chats', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ title }),
+        body: JSON.stringify({ title, projectId }),
       });
       if (!response.ok) throw new Error('Failed to create chat');
       const data = await response.json();
-      setChats(prev => [data.chat, ...prev]);
+      // New chats are never archived or deleted
+      if (view === 'active') placeChat(data.chat);
       return data.chat;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create chat');
@@ -53,12 +212,13 @@ export function useChats() {
   };
 
   /**
-   * Deletes a chat conversation
+   * Moves a chat to the trash, or deletes it for good when it is already there
    * @param chatId - ID of chat to delete
+   * @param options - `permanent` deletes a trashed chat and its attachments
    */
-  const deleteChat = async (chatId: string) => {
+  const deleteChat = async (chatId: string, { permanent = false }: { permanent?: boolean } = {}) => {
     try {
-      const response = await fetch(`/api/chats/${chatId}`, {
+      const response = await fetch(`/api/chats/${chatId}${permanent ? '?permanent=true' : ''}`, {
         method: 'DELETE',
       });
       
@@ -67,7 +227,7 @@ export function useChats() {
         throw new Error(errorData.error || `Failed to delete chat (${response.status})`);
       }
       
-      setChats(prev => prev.filter(chat => chat._id !== chatId));
+      removeChat(chatId);
     } catch (err) {
       console.error('Delete chat error:', err);
       setError(err instanceof Error ? err.message : 'Failed to delete chat');
@@ -75,15 +235,115 @@ export function useChats() {
     }
   };
 
+  /**
+   * Moves a chat out of the trash
+   * It reappears in this list if the list shows the view the chat returns to
+   * @param chatId - ID of chat to restore
+   */
+  const restoreChat = async (chatId: string) => {
+    try {
+      const response = await fetch(`/api/chats/${chatId}/restore`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to restore chat');
+      }
+
+      const data = await response.json();
+      const restored: ChatSummary = data.chat;
+      const restoredView: ChatListView = restored.archived ? 'archived' : 'active';
+
+      removeChat(chatId);
+      if (restoredView === view) placeChat(restored);
+
+      return restored;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore chat');
+      throw err;
+    }
+  };
+
+  /**
+   * Renames, pins, archives or moves a chat
+   * Chats moved in or out of the archive leave the current list; pinning, unpinning or
+   * moving a chat puts it in the list it now belongs in
+   * @param chatId - ID of chat to update
+   * @param updates - Fields to change
+   */
+  const updateChat = async (chatId: string, updates: ChatUpdate) => {
+    try {
+      const response = await fetch(`/api/chats/${chatId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to update chat');
+      }
+
+      const data = await response.json();
+      const updated: ChatSummary = data.chat;
+
+      if (!!updated.archived !== (view === 'archived')) {
+        removeChat(chatId);
+      } else if (updates.pinned !== undefined || updates.projectId !== undefined) {
+        removeChat(chatId);
+        placeChat(updated);
+      } else {
+        mapChat(chatId, chat => ({ ...chat, ...updated }));
+      }
+
+      if (updates.title !== undefined) {
+        window.dispatchEvent(new CustomEvent('chatTitleUpdated', {
+          detail: { chatId, newTitle: updated.title }
+        }));
+      }
+
+      return updated;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update chat');
+      throw err;
+    }
+  };
+
+  /**
+   * Asks the model for a new title based on the chat's first exchange
+   * @param chatId - ID of chat to rename
+   */
+  const regenerateTitle = async (chatId: string) => {
+    try {
+      const response = await fetch(`/api/chats/${chatId}/title`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to regenerate title');
+      }
+
+      const data = await response.json();
+      // Lets every chat list, including this one, pick up the new title
+      window.dispatchEvent(new CustomEvent('chatTitleUpdated', {
+        detail: { chatId, newTitle: data.title }
+      }));
+      return data.title as string;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to regenerate title');
+      throw err;
+    }
+  };
+
   useEffect(() => {
-    fetchChats();
+    fetchChats(view);
     
     // Listen for chat title updates
     const handleTitleUpdate = (event: CustomEvent) => {
       const { chatId, newTitle } = event.detail;
-      setChats(prev => prev.map(chat => 
-        chat._id === chatId ? { ...chat, title: newTitle } : chat
-      ));
+      mapChat(chatId, chat => ({ ...chat, title: newTitle }));
     };
     
     window.addEventListener('chatTitleUpdated', handleTitleUpdate as EventListener);
@@ -91,36 +351,71 @@ export function useChats() {
     return () => {
       window.removeEventListener('chatTitleUpdated', handleTitleUpdate as EventListener);
     };
-  }, []);
+  }, [view]);
 
   return {
     chats,
     loading,
+    loadingMore,
+    hasMore: nextCursor !== null,
     error,
-    fetchChats,
+    projectChats,
+    fetchChats: () => fetchChats(view),
+    loadMoreChats,
+    loadProjectChats,
     createChat,
     deleteChat,
+    restoreChat,
+    updateChat,
+    regenerateTitle,
   };
 }
 
+/**
+ * Progress of a streamed assistant response
+ * Shared across reconnects so resumed content is appended, not duplicated
+ */
+interface StreamProgress {
+  streamId: string | null;
+  lastEventId: string;
+  content: string;
+  finished: boolean;
+}
+
+const STREAM_RESUME_ATTEMPTS = 3;
+const STREAM_RESUME_DELAY_MS = 1000;
+
+/**
+ * Returns the sessionStorage key holding a chat's in-flight stream id
+ * @param chatId - Chat ID
+ */
+const activeStreamKey = (chatId: string) => `active-stream-${chatId}`;
+
 /**
  * useChat Hook
  * Manages a single chat conversation
  * Handles message sending, editing, and streaming responses
+ * Interrupted responses are resumed after a network drop or page reload
  */
 export function useChat(chatId: string | null) {
   const [chat, setChat] = useState<ChatData | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [sending, setSending] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const streamIdRef = useRef<string | null>(null);
+  // Latest resume handler, read through a ref so fetchChat stays render-independent
+  const resumeActiveStreamRef = useRef<(id: string) => Promise<void>>(async () => {});
 
   /**
    * Fetches chat data including message history
+   * Resumes any response that was in flight when the page was left
    * @param id - Chat ID to fetch
+   * @param options - `background` refreshes the open chat without showing the loading state
    */
-  const fetchChat = async (id: string) => {
+  const fetchChat = async (id: string, { background = false }: { background?: boolean } = {}) => {
     try {
-      setLoading(true);
+      if (!background) setLoading(true);
       const response = await fetch(`/api/chats/${id}`);
       if (!response.ok) throw new Error('Failed to fetch chat');
       const data = await response.json();
@@ -128,43 +423,200 @@ export function useChat(chatId: string | null) {
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load chat');
+      return;
     } finally {
       setLoading(false);
     }
+
+    // Pick up a response that was still generating before a reload
+    await resumeActiveStreamRef.current(id);
+  };
+
+  /**
+   * Replaces the trailing assistant message, or appends one if the chat ends with a user turn
+   * @param update - Builds the new message from the current trailing assistant message
+   */
+  const setAssistantMessage = (update: (current?: ChatMessage) => ChatMessage) => {
+    setChat(prev => {
+      if (!prev) return null;
+
+      const messages = [...prev.messages];
+      const lastMessage = messages[messages.length - 1];
+
+      if (lastMessage?.role === 'assistant') {
+        messages[messages.length - 1] = update(lastMessage);
+      } else {
+        messages.push(update());
+      }
+
+      return { ...prev, messages };
+    });
+  };
+
+  /**
+   * Forgets the in-flight stream once it has reached a final state
+   * @param progress - Stream progress to mark as finished
+   */
+  const finishStream = (progress: StreamProgress) => {
+    progress.finished = true;
+    streamIdRef.current = null;
+    if (chatId) sessionStorage.removeItem(activeStreamKey(chatId));
+  };
+
+  /**
+   * Reads a response stream and applies its events to the conversation
+   * @param body - SSE response body
+   * @param progress - Progress shared with any later reconnect
+   * @param onUserMessage - Called when the server confirms the saved user message
+   */
+  const consumeStream = async (
+    body: ReadableStream<Uint8Array>,
+    progress: StreamProgress,
+    onUserMessage?: (message: ChatMessage) => void
+  ) => {
+    for await (const event of readSSEEvents(body)) {
+      if (event.id) progress.lastEventId = event.id;
+
+      let data;
+      try {
+        data = JSON.parse(event.data);
+      } catch {
+        // Skip invalid JSON
+        continue;
+      }
+
+      switch (data.type) {
+        case 'userMessage':
+        case 'regenerating':
+          progress.streamId = data.streamId;
+          streamIdRef.current = data.streamId;
+          if (chatId) sessionStorage.setItem(activeStreamKey(chatId), data.streamId);
+          if (data.type === 'userMessage') onUserMessage?.(data.message);
+          break;
+
+        case 'chunk':
+          progress.content += data.content;
+          // Update streaming assistant message
+          setAssistantMessage(current => ({
+            role: 'assistant',
+            timestamp: new Date(),
+            ...current,
+            content: progress.content,
+          }));
+          break;
+
+        case 'complete':
+          finishStream(progress);
+          // Final update with complete message
+          setAssistantMessage(() => data.assistantMessage);
+          setChat(prev => {
+            if (!prev) return null;
+
+            // If title changed, emit event for sidebar to update
+            if (data.chatTitle && data.chatTitle !== prev.title) {
+              window.dispatchEvent(new CustomEvent('chatTitleUpdated', {
+                detail: { chatId: chatId, newTitle: data.chatTitle }
+              }));
+            }
+
+            return { ...prev, title: data.chatTitle || prev.title };
+          });
+          break;
+
+        case 'title':
+          // Model-written title, sent after the first exchange completes
+          setChat(prev => prev ? { ...prev, title: data.title } : null);
+          window.dispatchEvent(new CustomEvent('chatTitleUpdated', {
+            detail: { chatId: chatId, newTitle: data.title }
+          }));
+          break;
+
+        case 'stopped':
+          finishStream(progress);
+          if (data.message) {
+            setAssistantMessage(() => data.message);
+          }
+          break;
+
+        case 'error':
+          finishStream(progress);
+          if (data.message) {
+            setAssistantMessage(() => data.message);
+          }
+          setError(data.error);
+          break;
+      }
+    }
+  };
+
+  /**
+   * Reconnects to a stream, continuing after the last event received
+   * Retries a few times before giving up
+   * @param progress - Progress of the interrupted stream
+   * @param signal - Aborts the reconnect attempts
+   */
+  const followStream = async (progress: StreamProgress, signal: AbortSignal) => {
+    for (let attempt = 1; attempt <= STREAM_RESUME_ATTEMPTS; attempt++) {
+      try {
+        const response = await fetch(`/api/chats/${chatId}/stream/${progress.streamId}`, {
+          headers: { 'Last-Event-ID': progress.lastEventId },
+          signal,
+        });
+
+        if (response.status === 404) {
+          // The session expired; the saved chat is the best we have
+          finishStream(progress);
+          if (chatId) await fetchChat(chatId);
+          return;
+        }
+        if (!response.ok || !response.body) throw new Error('Failed to resume response');
+
+        await consumeStream(response.body, progress);
+        if (progress.finished) return;
+      } catch (err) {
+        if (signal.aborted) throw err;
+        console.error(`Resume attempt ${attempt} failed:`, err);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, STREAM_RESUME_DELAY_MS * attempt));
+    }
+
+    throw new Error('Connection lost while receiving the response');
   };
 
   /**
    * Sends a message and handles streaming response
    * @param message - Message content to send
    * @param files - Optional file attachments
-   * @param isRegenerate - Whether this is a response regeneration
+   * @param options - `editMessageId` sends the message as a new branch of that message
    */
-  const sendMessage = async (message: string, files?: unknown[], isRegenerate: boolean = false) => {
+  const sendMessage = async (
+    message: string,
+    files?: UploadedFile[],
+    options: { editMessageId?: string } = {}
+  ) => {
     if (!chatId || !message.trim()) return;
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let userMessageSaved = false;
+    const progress: StreamProgress = { streamId: null, lastEventId: '0', content: '', finished: false };
+
     try {
       setSending(true);
       setError(null);
 
-      // If regenerating, remove the last assistant message
-      if (isRegenerate) {
-        setChat(prev => prev ? {
-          ...prev,
-          messages: prev.messages.slice(0, -1),
-        } : null);
-      } else {
-        // Optimistically add user message for new messages
-        const tempUserMessage: ChatMessage = {
-          role: 'user',
-          content: message.trim(),
-          timestamp: new Date(),
-        };
+      // Optimistically add user message
+      const tempUserMessage: ChatMessage = {
+        role: 'user',
+        content: message.trim(),
+        timestamp: new Date(),
+      };
 
-        setChat(prev => prev ? {
-          ...prev,
-          messages: [...prev.messages, tempUserMessage],
-        } : null);
-      }
+      setChat(prev => prev ? {
+        ...prev,
+        messages: [...prev.messages, tempUserMessage],
+      } : null);
 
       // Process files if provided
       let processedFiles = null;
@@ -173,6 +625,7 @@ export function useChat(chatId: string | null) {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ files }),
+          signal: abortController.signal,
         });
         
         if (fileResponse.ok) {
@@ -181,175 +634,305 @@ export function useChat(chatId: string | null) {
         }
       }
 
-      // Use simulated streaming API
-      const response = await fetch(`/api/chats/${chatId}/simulate-stream`, {
+      const response = await fetch(`/api/chats/${chatId}/stream`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
           message: message.trim(),
-          files: processedFiles 
+          files: processedFiles,
+          editMessageId: options.editMessageId,
         }),
+        signal: abortController.signal,
       });
 
       if (!response.ok) throw new Error('Failed to send message');
+      if (!response.body) throw new Error('No reader available');
 
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error('No reader available');
+      try {
+        await consumeStream(response.body, progress, (savedMessage) => {
+          userMessageSaved = true;
+          // Replace temp message with real user message
+          setChat(prev => prev ? {
+            ...prev,
+            currentLeafId: savedMessage._id,
+            messages: [
+              ...prev.messages.slice(0, -1),
+              savedMessage,
+            ],
+          } : null);
+        });
+      } catch (err) {
+        // Network drop: pick the response up where it left off
+        if (abortController.signal.aborted || !progress.streamId) throw err;
+      }
 
-      let assistantContent = '';
-      
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = new TextDecoder().decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              
-              switch (data.type) {
-                case 'userMessage':
-                  if (!isRegenerate) {
-                    // Replace temp message with real user message
-                    setChat(prev => prev ? {
-                      ...prev,
-                      messages: [
-                        ...prev.messages.slice(0, -1),
-                        data.message,
-                      ],
-                    } : null);
-                  }
-                  break;
-
-                case 'chunk':
-                  assistantContent += data.content;
-                  // Update streaming assistant message
-                  setChat(prev => {
-                    if (!prev) return null;
-                    
-                    const messages = [...prev.messages];
-                    const lastMessage = messages[messages.length - 1];
-                    
-                    if (lastMessage?.role === 'assistant') {
-                      // Update existing assistant message
-                      messages[messages.length - 1] = {
-                        ...lastMessage,
-                        content: assistantContent,
-                      };
-                    } else {
-                      // Add new assistant message
-                      messages.push({
-                        role: 'assistant',
-                        content: assistantContent,
-                        timestamp: new Date(),
-                      });
-                    }
-                    
-                    return {
-                      ...prev,
-                      messages,
-                    };
-                  });
-                  break;
-
-                case 'complete':
-                  // Final update with complete message
-                  setChat(prev => {
-                    if (!prev) return null;
-                    const updatedChat = {
-                      ...prev,
-                      title: data.chatTitle || prev.title,
-                      messages: [
-                        ...prev.messages.slice(0, -1),
-                        data.assistantMessage,
-                      ],
-                    };
-                    
-                    // If title changed, emit event for sidebar to update
-                    if (data.chatTitle && data.chatTitle !== prev.title) {
-                      window.dispatchEvent(new CustomEvent('chatTitleUpdated', {
-                        detail: { chatId: chatId, newTitle: data.chatTitle }
-                      }));
-                    }
-                    
-                    return updatedChat;
-                  });
-                  break;
-
-                case 'error':
-                  setChat(prev => prev ? {
-                    ...prev,
-                    messages: [
-                      ...prev.messages.slice(0, -1),
-                      data.message,
-                    ],
-                  } : null);
-                  setError(data.error);
-                  break;
-              }
-            } catch {
-              // Skip invalid JSON
-            }
-          }
-        }
+      if (!progress.finished && progress.streamId) {
+        await followStream(progress, abortController.signal);
       }
 
       return { success: true };
     } catch (err) {
-      // Remove optimistic user message on error
-      if (!isRegenerate) {
-        setChat(prev => prev ? {
-          ...prev,
-          messages: prev.messages.slice(0, -1),
-        } : null);
+      if (abortController.signal.aborted && userMessageSaved) {
+        // Stopped by the user; follow the session to its end to show the reply the server kept,
+        // with its id, so actions on it work without a reload
+        if (progress.streamId && !progress.finished) {
+          await followStream(progress, new AbortController().signal).catch(() => fetchChat(chatId, { background: true }));
+        }
+        return { success: true, stopped: true };
       }
-      
+
+      if (userMessageSaved) {
+        // The user message is stored, keep it and surface the lost connection
+        setError(err instanceof Error ? err.message : 'Failed to send message');
+        return { success: false };
+      }
+
+      if (abortController.signal.aborted) {
+        // Stopped before the server confirmed the message; it may already be stored,
+        // so show the saved chat rather than guessing
+        await fetchChat(chatId, { background: true });
+        return { success: false, stopped: true };
+      }
+
+      // Remove optimistic user message on error
+      setChat(prev => prev ? {
+        ...prev,
+        messages: prev.messages.slice(0, -1),
+      } : null);
+
       setError(err instanceof Error ? err.message : 'Failed to send message');
       throw err;
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
       setSending(false);
     }
   };
 
   /**
-   * Edits a message and regenerates subsequent responses
-   * @param messageIndex - Index of message to edit
-   * @param newContent - New message content
+   * Resumes a response that was still generating when the page was last left
+   * Replays it from the start, since the partial reply is not kept in the browser
+   * @param id - Chat ID whose stream should be resumed
    */
-  const editMessage = async (messageIndex: number, newContent: string) => {
-    if (!chatId || !chat) return;
+  const resumeActiveStream = async (id: string) => {
+    const streamId = sessionStorage.getItem(activeStreamKey(id));
+    if (!streamId || abortControllerRef.current) return;
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    streamIdRef.current = streamId;
+    const progress: StreamProgress = { streamId, lastEventId: '0', content: '', finished: false };
 
     try {
       setSending(true);
-      setError(null);
+      await followStream(progress, abortController.signal);
+    } catch (err) {
+      if (abortController.signal.aborted) {
+        setAssistantMessage(current => ({
+          role: 'assistant',
+          timestamp: new Date(),
+          content: progress.content,
+          ...current,
+          stopped: true,
+        }));
+        return;
+      }
+      sessionStorage.removeItem(activeStreamKey(id));
+      setError(err instanceof Error ? err.message : 'Failed to resume response');
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+      setSending(false);
+    }
+  };
 
-      // Update the specific message
-      const updatedMessages = [...chat.messages];
-      updatedMessages[messageIndex] = {
-        ...updatedMessages[messageIndex],
-        content: newContent,
-      };
+  resumeActiveStreamRef.current = resumeActiveStream;
 
-      // Remove any assistant messages after this user message
-      const editedMessageIndex = messageIndex;
-      const messagesUpToEdit = updatedMessages.slice(0, editedMessageIndex + 1);
-      
+  /**
+   * Stops the response that is currently being generated
+   * The server saves the partial reply and marks it as stopped
+   */
+  const stopGeneration = () => {
+    const streamId = streamIdRef.current;
+    if (chatId && streamId) {
+      fetch(`/api/chats/${chatId}/stream/${streamId}`, { method: 'DELETE', keepalive: true })
+        .catch(err => console.error('Failed to stop generation:', err));
+      sessionStorage.removeItem(activeStreamKey(chatId));
+      streamIdRef.current = null;
+    }
+    abortControllerRef.current?.abort();
+  };
+
+  /**
+   * Edits a message by sending the new text as a sibling branch
+   * The original message and its replies stay reachable through branch navigation
+   * @param messageId - Id of the message to edit
+   * @param newContent - New message content
+   */
+  const editMessage = async (messageId: string, newContent: string) => {
+    if (!chatId || !chat) return;
+
+    const messageIndex = chat.messages.findIndex(msg => msg._id === messageId);
+    if (messageIndex === -1) return;
+
+    try {
+      // Show the new branch in place of the edited message and everything after it
       setChat(prev => prev ? {
         ...prev,
-        messages: messagesUpToEdit,
+        messages: prev.messages.slice(0, messageIndex),
       } : null);
 
-      // Regenerate response from the edited message
-      await sendMessage(newContent, undefined, true);
+      await sendMessage(newContent, undefined, { editMessageId: messageId });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to edit message');
+      // Restore the branch that was active before the edit
+      await fetchChat(chatId);
       throw err;
     }
   };
 
+  /**
+   * Merges a message returned by the server into the conversation
+   * Branch info is kept since message endpoints do not compute it
+   * @param message - Updated message
+   */
+  const replaceMessage = (message: ChatMessage) => {
+    setChat(prev => prev ? {
+      ...prev,
+      messages: prev.messages.map(msg => msg._id === message._id ? { ...msg, ...message } : msg),
+    } : null);
+  };
+
+  /**
+   * Streams a new version of an assistant reply in place of the displayed one
+   * Previous versions stay available as alternatives; like new replies it can be
+   * stopped and is resumed after a network drop or reload
+   * @param messageId - Id of the assistant message
+   */
+  const regenerateResponse = async (messageId: string) => {
+    if (!chatId) return;
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const progress: StreamProgress = { streamId: null, lastEventId: '0', content: '', finished: false };
+
+    try {
+      setSending(true);
+      setError(null);
+
+      const response = await fetch(`/api/chats/${chatId}/messages/${messageId}/regenerate`, {
+        method: 'POST',
+        signal: abortController.signal,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to regenerate response');
+      }
+      if (!response.body) throw new Error('No reader available');
+
+      try {
+        await consumeStream(response.body, progress);
+      } catch (err) {
+        // Network drop: pick the response up where it left off
+        if (abortController.signal.aborted || !progress.streamId) throw err;
+      }
+
+      if (!progress.finished && progress.streamId) {
+        await followStream(progress, abortController.signal);
+      }
+    } catch (err) {
+      if (abortController.signal.aborted) {
+        // Stopped by the user; follow the session to its end to show the version the server kept
+        if (progress.streamId && !progress.finished) {
+          await followStream(progress, new AbortController().signal).catch(() => fetchChat(chatId));
+        }
+        return;
+      }
+      setError(err instanceof Error ? err.message : 'Failed to regenerate response');
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+      setSending(false);
+    }
+  };
+
+  /**
+   * Makes one regenerated version the canonical reply
+   * @param messageId - Id of the assistant message
+   * @param index - Index of the version to keep
+   */
+  const selectAlternative = async (messageId: string, index: number) => {
+    if (!chatId) return;
+
+    try {
+      const response = await fetch(`/api/chats/${chatId}/messages/${messageId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ selectedAlternative: index }),
+      });
+
+      if (!response.ok) throw new Error('Failed to select response');
+
+      const data = await response.json();
+      replaceMessage(data.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to select response');
+    }
+  };
+
+  /**
+   * Makes the branch containing the given message the active one
+   * @param messageId - Id of a sibling message to switch to
+   */
+  const switchBranch = async (messageId: string) => {
+    if (!chatId) return;
+
+    try {
+      const response = await fetch(`/api/chats/${chatId}/branch`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messageId }),
+      });
+
+      if (!response.ok) throw new Error('Failed to switch branch');
+
+      const data = await response.json();
+      setChat(prev => prev ? {
+        ...prev,
+        currentLeafId: data.currentLeafId,
+        messages: data.messages,
+      } : null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to switch branch');
+    }
+  };
+
+  /**
+   * Saves the model selection and generation settings for this chat
+   * @param settings - New settings, replacing the stored ones
+   */
+  const updateSettings = async (settings: ChatSettings) => {
+    if (!chatId) return;
+
+    const response = await fetch(`/api/chats/${chatId}/settings`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ settings }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to update settings');
+    }
+
+    const data = await response.json();
+    setChat(prev => prev ? { ...prev, settings: data.settings } : null);
+  };
+
   useEffect(() => {
     if (chatId) {
       fetchChat(chatId);
@@ -364,7 +947,12 @@ export function useChat(chatId: string | null) {
     error,
     sending,
     sendMessage,
+    stopGeneration,
     editMessage,
+    switchBranch,
+    regenerateResponse,
+    selectAlternative,
+    updateSettings,
     refetch: chatId ? () => fetchChat(chatId) : undefined,
   };
 }
\ No newline at end of file
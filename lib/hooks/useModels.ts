@@ -0,0 +1,40 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ModelCatalog } from '@/lib/types/chat';
+
+/**
+ * useModels Hook
+ * Loads the models offered by the configured LLM provider
+ * Along with the default generation settings
+ */
+export function useModels() {
+  const [catalog, setCatalog] = useState<ModelCatalog | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchModels = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch('/api/models');
+        if (!response.ok) throw new Error('Failed to fetch models');
+        const data = await response.json();
+        setCatalog(data);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load models');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchModels();
+  }, []);
+
+  return {
+    catalog,
+    loading,
+    error,
+  };
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { UserPreferences } from '@/lib/types/chat';
+
+/**
+ * usePreferences Hook
+ * Loads and saves the user's account-wide preferences
+ * such as custom instructions applied to every chat
+ */
+export function usePreferences() {
+  const [preferences, setPreferences] = useState<UserPreferences | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetches the current preferences
+   */
+  const fetchPreferences = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/user/preferences');
+      if (!response.ok) throw new Error('Failed to fetch preferences');
+      const data = await response.json();
+      setPreferences(data.preferences);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load preferences');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Saves new custom instructions
+   * @param customInstructions - Instructions added to every chat's system prompt
+   */
+  const saveCustomInstructions = async (customInstructions: string) => {
+    const response = await fetch('/api/user/preferences', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ customInstructions }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to save preferences');
+    }
+
+    const data = await response.json();
+    setPreferences(data.preferences);
+  };
+
+  useEffect(() => {
+    fetchPreferences();
+  }, []);
+
+  return {
+    preferences,
+    loading,
+    error,
+    saveCustomInstructions,
+  };
+}
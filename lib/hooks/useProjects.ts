@@ -0,0 +1,114 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Project, ProjectInput } from '@/lib/types/chat';
+
+/**
+ * Sorts projects by name, matching the order returned by the API
+ * @param projects - Projects to sort
+ */
+const sortByName = (projects: Project[]) =>
+  [...projects].sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * useProjects Hook
+ * Manages the user's projects
+ * Handles fetching, creating, updating, and deleting projects
+ */
+export function useProjects() {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetches all projects for the current user
+   */
+  const fetchProjects = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/projects');
+      if (!response.ok) throw new Error('Failed to fetch projects');
+      const data = await response.json();
+      setProjects(data.projects);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load projects');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Creates a new project
+   * @param input - Name and optional color, instructions and default model
+   */
+  const createProject = async (input: ProjectInput) => {
+    const response = await fetch('/api/projects', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to create project');
+    }
+
+    const data = await response.json();
+    setProjects(prev => sortByName([...prev, data.project]));
+    return data.project as Project;
+  };
+
+  /**
+   * Updates a project's fields
+   * @param projectId - ID of project to update
+   * @param input - Fields to change
+   */
+  const updateProject = async (projectId: string, input: ProjectInput) => {
+    const response = await fetch(`/api/projects/${projectId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to update project');
+    }
+
+    const data = await response.json();
+    setProjects(prev => sortByName(prev.map(project => project._id === projectId ? data.project : project)));
+    return data.project as Project;
+  };
+
+  /**
+   * Deletes a project; its chats are kept without a project
+   * @param projectId - ID of project to delete
+   */
+  const deleteProject = async (projectId: string) => {
+    const response = await fetch(`/api/projects/${projectId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to delete project');
+    }
+
+    setProjects(prev => prev.filter(project => project._id !== projectId));
+  };
+
+  useEffect(() => {
+    fetchProjects();
+  }, []);
+
+  return {
+    projects,
+    loading,
+    error,
+    fetchProjects,
+    createProject,
+    updateProject,
+    deleteProject,
+  };
+}
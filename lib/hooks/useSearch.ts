@@ -0,0 +1,65 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { SearchResult } from '@/lib/types/chat';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * useSearch Hook
+ * Searches chat titles and messages on the server as the query changes
+ * Requests are debounced and stale responses are discarded
+ * @param query - Search query; an empty query clears the results
+ */
+export function useSearch(query: string) {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+
+    if (!trimmed) {
+      setResults([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    const abortController = new AbortController();
+    setLoading(true);
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/search?q=${encodeURIComponent(trimmed)}`, {
+          signal: abortController.signal,
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || 'Search failed');
+        }
+
+        const data = await response.json();
+        setResults(data.results);
+        setError(null);
+      } catch (err) {
+        if (abortController.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Search failed');
+      } finally {
+        if (!abortController.signal.aborted) setLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      abortController.abort();
+    };
+  }, [query]);
+
+  return {
+    results,
+    loading,
+    error,
+  };
+}
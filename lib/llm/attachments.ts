@@ -0,0 +1,81 @@
+import { AttachmentMetadata } from '@/lib/types/chat';
+
+/**
+ * AttachmentContextFile interface
+ * The parts of a processed file needed to describe it to the model
+ */
+export interface AttachmentContextFile {
+  uuid?: string;
+  name: string;
+  mimeType: string;
+  textContent?: string;
+  metadata?: AttachmentMetadata;
+}
+
+/**
+ * AttachmentRetrieval interface
+ * Documents searched instead of inlined, and the excerpts retrieved from them
+ */
+export interface AttachmentRetrieval {
+  indexedFiles: Set<string>;
+  excerpts: string;
+}
+
+/**
+ * Describes a file by name, plus its size in pages, slides or rows and how its text was read
+ * @param file - Processed attachment
+ */
+function describeFile(file: AttachmentContextFile): string {
+  const details = [
+    file.metadata?.pageCount ? `${file.metadata.pageCount} pages` : null,
+    file.metadata?.slideCount ? `${file.metadata.slideCount} slides` : null,
+    file.metadata?.sheetCount ? `${file.metadata.sheetCount} sheets, ${file.metadata.rowCount ?? 0} rows` : null,
+    file.metadata?.ocrConfidence !== undefined ? 'text recognized by OCR, may contain errors' : null,
+    file.metadata?.truncated ? 'only the beginning was read' : null,
+  ].filter(Boolean);
+  return details.length > 0 ? `${file.name} (${details.join(', ')})` : file.name;
+}
+
+/**
+ * Lists attachments with their extracted text, or only their names when they are indexed
+ * @param files - Processed attachments
+ * @param retrieval - Indexed files
+ */
+function describeFiles(files: AttachmentContextFile[], retrieval?: AttachmentRetrieval): string {
+  return files.map(file => {
+    if (file.uuid && retrieval?.indexedFiles.has(file.uuid)) {
+      return `File: ${describeFile(file)}\nContent: too long to include in full, excerpts relevant to the message are quoted below, if any`;
+    }
+    // Only include extracted text, not placeholders such as "[Image: name]"
+    if (file.textContent && !file.textContent.startsWith('[')) {
+      return `File: ${describeFile(file)}\nContent: ${file.textContent}`;
+    }
+    return `File: ${file.name} (${file.mimeType})`;
+  }).join('\n\n');
+}
+
+/**
+ * Builds the user turn sent to the model when files are attached
+ * Extracted text, including spreadsheet summaries, is inlined; other files are described by name and type.
+ * Indexed documents are only named, with the retrieved excerpts appended instead.
+ * The message shown in the chat stays unchanged
+ * @param message - Message typed by the user
+ * @param files - Processed attachments
+ * @param retrieval - Indexed files and excerpts relevant to the message
+ */
+export function buildAttachmentContext(
+  message: string,
+  files?: AttachmentContextFile[] | null,
+  retrieval?: AttachmentRetrieval
+): string {
+  const sections = [message];
+
+  if (files && files.length > 0) {
+    sections.push(`[User has attached the following files:\n${describeFiles(files, retrieval)}]`);
+  }
+  if (retrieval?.excerpts) {
+    sections.push(retrieval.excerpts);
+  }
+
+  return sections.join('\n\n');
+}
@@ -0,0 +1,67 @@
+import { GenerationOptions } from './types';
+
+/**
+ * Default system prompt sent ahead of every conversation
+ */
+export const DEFAULT_SYSTEM_PROMPT =
+  'You are a helpful AI assistant. Be concise and accurate in your responses.';
+
+/**
+ * Extra instruction appended to the system prompt when files are attached
+ */
+export const ATTACHMENTS_SYSTEM_PROMPT =
+  'If files are provided, analyze them and provide relevant insights.';
+
+/**
+ * Sampling parameters used when a request does not specify its own
+ */
+export const DEFAULT_GENERATION: Required<Pick<GenerationOptions, 'maxTokens' | 'temperature'>> = {
+  maxTokens: 1000,
+  temperature: 0.7,
+};
+
+/**
+ * Accepted ranges for user-supplied generation settings
+ */
+export const GENERATION_LIMITS = {
+  temperature: { min: 0, max: 2 },
+  maxTokens: { min: 1, max: 32000 },
+  topP: { min: 0, max: 1 },
+};
+
+/**
+ * Maximum length of user-level custom instructions
+ */
+export const CUSTOM_INSTRUCTIONS_MAX_LENGTH = 1500;
+
+/**
+ * Maximum length of a per-chat system prompt override
+ */
+export const SYSTEM_PROMPT_MAX_LENGTH = 4000;
+
+/**
+ * Most images sent with a single user turn to a vision model
+ */
+export const VISION_MAX_IMAGES = 4;
+
+/**
+ * Supported values for the LLM_PROVIDER environment variable
+ */
+export const PROVIDER_NAMES = ['perplexity', 'openai', 'anthropic', 'ollama', 'mock'] as const;
+
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+
+/**
+ * System prompt used to summarise the first exchange of a chat as its title
+ */
+export const TITLE_SYSTEM_PROMPT =
+  'Write a short title (at most six words) for the conversation below. ' +
+  'Reply with the title only: no quotes, no trailing punctuation.';
+
+/**
+ * Sampling parameters for title generation; titles are short and should be stable
+ */
+export const TITLE_GENERATION: Required<Pick<GenerationOptions, 'maxTokens' | 'temperature'>> = {
+  maxTokens: 24,
+  temperature: 0.3,
+};
@@ -0,0 +1,208 @@
+import { DEFAULT_GENERATION } from './config';
+import { GenerationOptions, LLMMessage, LLMProvider } from './types';
+import { estimateMessageTokens, estimateTokens } from './tokens';
+
+/**
+ * Context window assumed when the provider does not report one and the model is not known
+ * Can be overridden with LLM_CONTEXT_WINDOW
+ */
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+/**
+ * Context windows of common models whose provider does not report one,
+ * matched against the model id in order
+ */
+const KNOWN_CONTEXT_WINDOWS: [RegExp, number][] = [
+  [/^gpt-4\.1/, 1047576],
+  [/^gpt-5/, 400000],
+  [/^(gpt-4o|gpt-4-turbo|o1-mini)/, 128000],
+  [/^(o1|o3|o4)/, 200000],
+  [/^gpt-4(?!\d)/, 8192],
+  [/^gpt-3\.5-turbo/, 16385],
+  [/^claude-/, 200000],
+];
+
+/**
+ * Looks up the context window of a well-known model by its id
+ * @param modelId - Model id
+ */
+function getKnownContextWindow(modelId: string): number | undefined {
+  return KNOWN_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(modelId))?.[1];
+}
+
+/**
+ * Share of the window kept free to absorb tokenizer estimation error
+ */
+const SAFETY_MARGIN = 0.05;
+
+/**
+ * Share of the prompt budget that may be spent summarizing dropped turns
+ */
+const SUMMARY_BUDGET_SHARE = 0.1;
+
+/**
+ * Characters kept from each dropped user turn in the summary
+ */
+const SUMMARY_SNIPPET_LENGTH = 160;
+
+/**
+ * ContextWindow interface
+ * Messages that fit the model's budget and how many of them were kept
+ */
+export interface ContextWindow {
+  messages: LLMMessage[];
+  includedMessages: number;
+  totalMessages: number;
+  tokens: number;
+}
+
+const contextWindowCache = new Map<string, number>();
+
+/**
+ * Looks up the context window of a model
+ * Reads it from the provider's model list, then LLM_CONTEXT_WINDOW, then the known
+ * windows of common models, and caches the result. The default is not cached when
+ * the model list could not be read, so a later request can retry
+ * @param provider - Active LLM provider
+ * @param model - Model id, defaults to the provider's default model
+ */
+export async function getContextWindow(provider: LLMProvider, model?: string): Promise<number> {
+  const modelId = model || provider.defaultModel;
+  const cacheKey = `${provider.name}:${modelId}`;
+
+  const cached = contextWindowCache.get(cacheKey);
+  if (cached) return cached;
+
+  let reported: number | undefined;
+  let listed = false;
+
+  try {
+    const models = await provider.listModels();
+    reported = models.find(item => item.id === modelId)?.contextWindow;
+    listed = true;
+  } catch (error) {
+    console.error('Could not read model context window, using default:', error);
+  }
+
+  const resolved = reported || Number(process.env.LLM_CONTEXT_WINDOW) || getKnownContextWindow(modelId);
+  const contextWindow = resolved || DEFAULT_CONTEXT_WINDOW;
+
+  if (listed || resolved) {
+    contextWindowCache.set(cacheKey, contextWindow);
+  }
+  return contextWindow;
+}
+
+/**
+ * Computes how many prompt tokens are available for a request
+ * @param contextWindow - Total context window of the model
+ * @param maxTokens - Tokens reserved for the completion
+ */
+export function getPromptBudget(contextWindow: number, maxTokens: number): number {
+  return Math.max(0, Math.floor(contextWindow * (1 - SAFETY_MARGIN)) - maxTokens);
+}
+
+/**
+ * Summarizes dropped turns as short snippets of what the user asked
+ * Newest turns are kept first until the summary budget is used up
+ * @param dropped - Conversation turns that did not fit
+ * @param budget - Tokens the summary may use
+ */
+function summarizeDroppedTurns(dropped: LLMMessage[], budget: number): string | null {
+  const header = `Earlier in this conversation (${dropped.length} older messages omitted), the user asked about:`;
+  let tokens = estimateTokens(header);
+  const lines: string[] = [];
+
+  for (const message of [...dropped].reverse()) {
+    if (message.role !== 'user') continue;
+
+    const text = message.content.replace(/\s+/g, ' ').trim();
+    const snippet = text.length > SUMMARY_SNIPPET_LENGTH
+      ? `${text.slice(0, SUMMARY_SNIPPET_LENGTH - 3)}...`
+      : text;
+    const line = `- ${snippet}`;
+    const lineTokens = estimateTokens(line) + 1;
+
+    if (tokens + lineTokens > budget) break;
+    tokens += lineTokens;
+    lines.unshift(line);
+  }
+
+  return lines.length > 0 ? `${header}\n${lines.join('\n')}` : null;
+}
+
+/**
+ * Fits a conversation into the model's prompt budget
+ * The system prompt and the latest user turn are always kept; older turns
+ * are added newest-first while they fit, and dropped user turns are
+ * summarized into the system prompt
+ * @param systemPrompt - System prompt for the request
+ * @param history - Conversation turns, oldest first, ending with the latest user turn
+ * @param budget - Prompt tokens available
+ */
+export function buildContextWindow(
+  systemPrompt: string,
+  history: LLMMessage[],
+  budget: number
+): ContextWindow {
+  const systemMessage: LLMMessage = { role: 'system', content: systemPrompt };
+  const latest = history[history.length - 1];
+  const earlier = history.slice(0, -1);
+
+  let tokens = estimateMessageTokens(systemMessage) + (latest ? estimateMessageTokens(latest) : 0);
+  const summaryBudget = Math.floor(budget * SUMMARY_BUDGET_SHARE);
+  const turnsBudget = budget - summaryBudget;
+
+  // Walk backwards so the most recent turns win
+  let firstIncluded = earlier.length;
+  for (let i = earlier.length - 1; i >= 0; i--) {
+    const messageTokens = estimateMessageTokens(earlier[i]);
+    if (tokens + messageTokens > turnsBudget) break;
+    tokens += messageTokens;
+    firstIncluded = i;
+  }
+
+  // Never start the window on an assistant turn
+  while (earlier[firstIncluded]?.role === 'assistant') {
+    tokens -= estimateMessageTokens(earlier[firstIncluded]);
+    firstIncluded++;
+  }
+
+  const kept = earlier.slice(firstIncluded);
+  const dropped = earlier.slice(0, firstIncluded);
+
+  if (dropped.length > 0) {
+    const summary = summarizeDroppedTurns(dropped, summaryBudget);
+    if (summary) {
+      systemMessage.content = `${systemPrompt}\n\n${summary}`;
+      tokens += estimateTokens(summary) + 1;
+    }
+  }
+
+  const included = latest ? [...kept, latest] : kept;
+
+  return {
+    messages: [systemMessage, ...included],
+    includedMessages: included.length,
+    totalMessages: history.length,
+    tokens,
+  };
+}
+
+/**
+ * Builds the context window for a request using the model's own budget
+ * @param provider - Active LLM provider
+ * @param systemPrompt - System prompt for the request
+ * @param history - Conversation turns, oldest first, ending with the latest user turn
+ * @param options - Resolved generation options for the request
+ */
+export async function fitToContextWindow(
+  provider: LLMProvider,
+  systemPrompt: string,
+  history: LLMMessage[],
+  options: GenerationOptions
+): Promise<ContextWindow> {
+  const contextWindow = await getContextWindow(provider, options.model);
+  const budget = getPromptBudget(contextWindow, options.maxTokens ?? DEFAULT_GENERATION.maxTokens);
+  return buildContextWindow(systemPrompt, history, budget);
+}
@@ -0,0 +1,45 @@
+import { readSSEEvents } from '@/lib/sse';
+
+/**
+ * Throws a descriptive error when an upstream API responds with a non-2xx status
+ * @param response - Fetch response from the provider
+ * @param providerName - Provider name used in the error message
+ */
+export async function ensureOk(response: Response, providerName: string): Promise<void> {
+  if (response.ok) return;
+
+  const errorText = await response.text().catch(() => '');
+  console.error(`❌ ${providerName} API error:`, errorText);
+  throw new Error(`${providerName} API error: ${response.status} - ${errorText}`);
+}
+
+/**
+ * Reads a Server-Sent Events response body
+ * Yields the data of every event, stopping at the `[DONE]` sentinel
+ * @param response - Streaming fetch response
+ */
+export async function* readSSEData(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new Error('Failed to get reader from response');
+  }
+
+  for await (const event of readSSEEvents(response.body)) {
+    const data = event.data.trim();
+    if (data === '[DONE]') return;
+    if (!data) continue;
+
+    yield data;
+  }
+}
+
+/**
+ * Parses a JSON payload, returning null for malformed input
+ * @param data - Raw JSON string
+ */
+export function parseJSON<T>(data: string): T | null {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,49 @@
+import { PROVIDER_NAMES, ProviderName } from './config';
+import { LLMProvider } from './types';
+import { createPerplexityProvider } from './providers/perplexity';
+import { createOpenAIProvider } from './providers/openai';
+import { createAnthropicProvider } from './providers/anthropic';
+import { createOllamaProvider } from './providers/ollama';
+import { createMockProvider } from './providers/mock';
+
+export * from './types';
+export * from './config';
+export * from './settings';
+export * from './prompts';
+export * from './tokens';
+export * from './context';
+export * from './attachments';
+export * from './vision';
+export * from './title';
+
+const providerFactories: Record<ProviderName, (defaultModel?: string) => LLMProvider> = {
+  perplexity: createPerplexityProvider,
+  openai: createOpenAIProvider,
+  anthropic: createAnthropicProvider,
+  ollama: createOllamaProvider,
+  mock: createMockProvider,
+};
+
+let cachedProvider: LLMProvider | null = null;
+
+/**
+ * Returns the LLM provider configured for this environment
+ * Selected by LLM_PROVIDER (defaults to perplexity), with LLM_MODEL overriding the default model
+ * The instance is created once and reused across requests
+ */
+export function getLLMProvider(): LLMProvider {
+  if (cachedProvider) {
+    return cachedProvider;
+  }
+
+  const name = (process.env.LLM_PROVIDER || 'perplexity').toLowerCase() as ProviderName;
+
+  if (!PROVIDER_NAMES.includes(name)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${name}". Expected one of: ${PROVIDER_NAMES.join(', ')}`
+    );
+  }
+
+  cachedProvider = providerFactories[name](process.env.LLM_MODEL || undefined);
+  return cachedProvider;
+}
@@ -0,0 +1,46 @@
+import { ATTACHMENTS_SYSTEM_PROMPT, DEFAULT_SYSTEM_PROMPT } from './config';
+
+/**
+ * SystemPromptOptions interface
+ * Inputs that shape the system prompt for a single request
+ */
+export interface SystemPromptOptions {
+  chatSystemPrompt?: string;
+  customInstructions?: string;
+  projectInstructions?: string;
+  hasAttachments?: boolean;
+}
+
+/**
+ * Builds the system prompt sent ahead of the conversation
+ * A per-chat prompt replaces the default one; the user's custom
+ * instructions, then the chat's project instructions, are appended
+ * to whichever base prompt applies
+ * @param options - Chat override, user and project instructions and attachment flag
+ */
+export function buildSystemPrompt({
+  chatSystemPrompt,
+  customInstructions,
+  projectInstructions,
+  hasAttachments = false,
+}: SystemPromptOptions = {}): string {
+  const sections = [chatSystemPrompt?.trim() || DEFAULT_SYSTEM_PROMPT];
+
+  if (hasAttachments) {
+    sections[0] = `${sections[0]} ${ATTACHMENTS_SYSTEM_PROMPT}`;
+  }
+
+  if (customInstructions?.trim()) {
+    sections.push(
+      `The user has provided the following custom instructions. Follow them unless they conflict with the conversation:\n${customInstructions.trim()}`
+    );
+  }
+
+  if (projectInstructions?.trim()) {
+    sections.push(
+      `This chat belongs to a project with the following instructions. Follow them unless they conflict with the conversation:\n${projectInstructions.trim()}`
+    );
+  }
+
+  return sections.join('\n\n');
+}
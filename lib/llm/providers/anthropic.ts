@@ -0,0 +1,139 @@
+import { readSSEEvents } from '@/lib/sse';
+import { ensureOk, parseJSON } from '../http';
+import { DEFAULT_GENERATION } from '../config';
+import { GenerationOptions, LLMMessage, LLMProvider } from '../types';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+interface AnthropicResponse {
+  content?: { type: string; text?: string }[];
+}
+
+type AnthropicContent =
+  | string
+  | ({ type: 'text'; text: string } | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } })[];
+
+// Claude 3 and later accept image content blocks
+const ANTHROPIC_VISION_MODELS = /^claude-(3|sonnet|opus|haiku)/;
+
+/**
+ * Converts a message to the Messages API format
+ * Images become base64 image blocks placed ahead of the text
+ * @param message - User or assistant message
+ */
+function toAnthropicMessage(message: LLMMessage): { role: string; content: AnthropicContent } {
+  if (!message.images?.length) {
+    return { role: message.role, content: message.content };
+  }
+
+  return {
+    role: message.role,
+    content: [
+      ...message.images.map(image => ({
+        type: 'image' as const,
+        source: { type: 'base64' as const, media_type: image.mimeType, data: image.data },
+      })),
+      { type: 'text', text: message.content },
+    ],
+  };
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: { type: string; text?: string };
+}
+
+/**
+ * Creates the Anthropic Messages API provider
+ * Reads ANTHROPIC_API_KEY from the environment
+ * @param defaultModel - Optional model override
+ */
+export function createAnthropicProvider(defaultModel?: string): LLMProvider {
+  const model = defaultModel || 'claude-3-5-haiku-latest';
+  const headers = {
+    'x-api-key': process.env.ANTHROPIC_API_KEY || '',
+    'anthropic-version': ANTHROPIC_VERSION,
+    'Content-Type': 'application/json',
+  };
+
+  /**
+   * Sends a Messages API request
+   * System messages are lifted into the top-level `system` field
+   * @param messages - Conversation to complete
+   * @param options - Sampling parameters
+   * @param stream - Whether to request a streamed response
+   */
+  const request = async (messages: LLMMessage[], options: GenerationOptions, stream: boolean) => {
+    const system = messages
+      .filter(msg => msg.role === 'system')
+      .map(msg => msg.content)
+      .join('\n\n');
+
+    const response = await fetch(`${ANTHROPIC_API_URL}/messages`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: options.model || model,
+        system: system || undefined,
+        messages: messages.filter(msg => msg.role !== 'system').map(toAnthropicMessage),
+        max_tokens: options.maxTokens ?? DEFAULT_GENERATION.maxTokens,
+        temperature: options.temperature ?? DEFAULT_GENERATION.temperature,
+        top_p: options.topP,
+        stream,
+      }),
+      signal: options.signal,
+    });
+
+    await ensureOk(response, 'Anthropic');
+    return response;
+  };
+
+  return {
+    name: 'Anthropic',
+    defaultModel: model,
+
+    async complete(messages, options = {}) {
+      const response = await request(messages, options, false);
+      const data: AnthropicResponse = await response.json();
+      return (data.content || [])
+        .filter(block => block.type === 'text')
+        .map(block => block.text || '')
+        .join('');
+    },
+
+    async *stream(messages, options = {}) {
+      const response = await request(messages, options, true);
+      if (!response.body) {
+        throw new Error('Failed to get reader from response');
+      }
+
+      for await (const { event: type, data } of readSSEEvents(response.body)) {
+        if (type === 'error') {
+          throw new Error(`Anthropic stream error: ${data}`);
+        }
+        if (type !== 'content_block_delta') continue;
+
+        const event = parseJSON<AnthropicStreamEvent>(data);
+        if (event?.delta?.type === 'text_delta' && event.delta.text) {
+          yield event.delta.text;
+        }
+      }
+    },
+
+    async listModels() {
+      const response = await fetch(`${ANTHROPIC_API_URL}/models`, { headers });
+      await ensureOk(response, 'Anthropic');
+      const data: { data?: { id: string; display_name?: string }[] } = await response.json();
+      return (data.data || []).map(item => ({
+        id: item.id,
+        name: item.display_name || item.id,
+        contextWindow: 200000,
+      }));
+    },
+
+    supportsVision(model) {
+      return ANTHROPIC_VISION_MODELS.test(model);
+    },
+  };
+}
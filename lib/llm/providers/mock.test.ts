@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LLMMessage, LLMProvider } from '../types';
+import { createMockProvider, MockProviderOptions } from './mock';
+
+/**
+ * Creates a mock provider without delays
+ * @param options - Options overriding the echo defaults
+ */
+function mockProvider(options: Partial<MockProviderOptions> = {}): LLMProvider {
+  return createMockProvider(undefined, {
+    mode: 'echo',
+    responses: [],
+    latencyMs: 0,
+    chunkDelayMs: 0,
+    frameSize: 0,
+    error: 'none',
+    ...options,
+  });
+}
+
+/**
+ * Streams a reply and joins its deltas
+ * @param provider - Provider to stream from
+ * @param messages - Conversation to complete
+ */
+async function streamReply(provider: LLMProvider, messages: LLMMessage[]): Promise<string> {
+  let reply = '';
+  for await (const content of provider.stream(messages)) {
+    reply += content;
+  }
+  return reply;
+}
+
+const user = (content: string): LLMMessage => ({ role: 'user', content });
+const assistant = (content: string): LLMMessage => ({ role: 'assistant', content });
+
+describe('createMockProvider', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('echoes the last user message', async () => {
+    const provider = mockProvider();
+
+    expect(await provider.complete([user('Hello there')])).toBe('Echo: Hello there');
+    expect(await streamReply(provider, [user('First'), assistant('Echo: First'), user('Second')]))
+      .toBe('Echo: Second');
+  });
+
+  it('picks scripted replies by user turn and wraps around', async () => {
+    const provider = mockProvider({ mode: 'scripted', responses: ['One', 'Two'] });
+
+    expect(await streamReply(provider, [user('a')])).toBe('One');
+    expect(await streamReply(provider, [user('a'), assistant('One'), user('b')])).toBe('Two');
+    expect(await streamReply(provider, [user('a'), assistant('One'), user('b'), assistant('Two'), user('c')]))
+      .toBe('One');
+  });
+
+  it('gives a conversation without user turns the first scripted reply', async () => {
+    const provider = mockProvider({ mode: 'scripted', responses: ['One', 'Two'] });
+
+    expect(await provider.complete([{ role: 'system', content: 'Be brief' }])).toBe('One');
+  });
+
+  it('delivers the same reply when re-sliced into small frames', async () => {
+    const provider = mockProvider({ frameSize: 7 });
+
+    expect(await streamReply(provider, [user('Split me across frames')])).toBe('Echo: Split me across frames');
+  });
+
+  it.each(['429', '500'] as const)('fails with a %s status', async error => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const provider = mockProvider({ error });
+
+    await expect(provider.complete([user('Hi')])).rejects.toThrow(`Mock API error: ${error}`);
+    await expect(streamReply(provider, [user('Hi')])).rejects.toThrow(`Mock API error: ${error}`);
+  });
+
+  it('skips a malformed stream event and fails a malformed completion', async () => {
+    const provider = mockProvider({ error: 'malformed' });
+    const reply = await streamReply(provider, [user('A fairly long message to stream')]);
+
+    expect(reply).not.toBe('Echo: A fairly long message to stream');
+    expect(reply.length).toBeGreaterThan(0);
+    await expect(provider.complete([user('Hi')])).rejects.toThrow();
+  });
+
+  it('returns nothing in empty mode', async () => {
+    const provider = mockProvider({ error: 'empty' });
+
+    expect(await provider.complete([user('Hi')])).toBe('');
+    expect(await streamReply(provider, [user('Hi')])).toBe('');
+  });
+});
@@ -0,0 +1,259 @@
+import { LLMMessage, LLMProvider } from '../types';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+
+/**
+ * MockErrorMode type
+ * Failure scenarios the mock provider can reproduce
+ */
+export type MockErrorMode = 'none' | '429' | '500' | 'malformed' | 'empty';
+
+/**
+ * MockProviderOptions interface
+ * Controls what the mock returns and how it behaves on the wire
+ */
+export interface MockProviderOptions {
+  mode: 'echo' | 'scripted';
+  responses: string[];
+  latencyMs: number;
+  chunkDelayMs: number;
+  frameSize: number;
+  error: MockErrorMode;
+}
+
+const MOCK_BASE_URL = 'http://mock.llm';
+
+const MOCK_MODELS = [
+  { id: 'mock-echo', name: 'Mock Echo', contextWindow: 8192 },
+  { id: 'mock-large', name: 'Mock Large', contextWindow: 128000 },
+];
+
+/**
+ * Reads mock provider options from the environment
+ * MOCK_LLM_MODE, MOCK_LLM_RESPONSES (JSON array), MOCK_LLM_LATENCY_MS,
+ * MOCK_LLM_CHUNK_DELAY_MS, MOCK_LLM_FRAME_SIZE and MOCK_LLM_ERROR
+ */
+export function getMockOptionsFromEnv(): MockProviderOptions {
+  let responses: string[] = [];
+  if (process.env.MOCK_LLM_RESPONSES) {
+    try {
+      const parsed = JSON.parse(process.env.MOCK_LLM_RESPONSES);
+      responses = Array.isArray(parsed) ? parsed.map(String) : [String(parsed)];
+    } catch {
+      responses = [process.env.MOCK_LLM_RESPONSES];
+    }
+  }
+
+  return {
+    mode: process.env.MOCK_LLM_MODE === 'scripted' && responses.length > 0 ? 'scripted' : 'echo',
+    responses,
+    latencyMs: Number(process.env.MOCK_LLM_LATENCY_MS ?? 200),
+    chunkDelayMs: Number(process.env.MOCK_LLM_CHUNK_DELAY_MS ?? 20),
+    frameSize: Number(process.env.MOCK_LLM_FRAME_SIZE ?? 0),
+    error: (process.env.MOCK_LLM_ERROR as MockErrorMode) || 'none',
+  };
+}
+
+/**
+ * Waits for the given delay, rejecting early if the request is aborted
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional abort signal of the request
+ */
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Picks the reply for a conversation
+ * Scripted replies are indexed by the number of user turns so the same
+ * conversation always receives the same answer
+ * @param messages - Conversation sent to the mock
+ * @param options - Mock options
+ */
+function buildReply(messages: LLMMessage[], options: MockProviderOptions): string {
+  const userTurns = messages.filter(msg => msg.role === 'user');
+
+  if (options.mode === 'scripted') {
+    // A conversation without user turns gets the first reply
+    return options.responses[Math.max(userTurns.length - 1, 0) % options.responses.length];
+  }
+
+  const lastUserMessage = userTurns[userTurns.length - 1]?.content || '';
+  return `Echo: ${lastUserMessage}`;
+}
+
+/**
+ * Splits text into token-like deltas the way real models stream them
+ * Words are kept with their trailing whitespace and long words are broken up
+ * @param text - Full reply text
+ */
+function tokenize(text: string): string[] {
+  const words = text.match(/\S+\s*|\s+/g) || [];
+  return words.flatMap(word => word.match(/[\s\S]{1,6}/g) || []);
+}
+
+/**
+ * Builds a JSON response in the OpenAI format
+ * @param status - HTTP status code
+ * @param body - Response payload
+ * @param headers - Extra headers
+ */
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+/**
+ * Builds the SSE frames for a streamed reply
+ * @param reply - Full reply text
+ * @param model - Model id echoed back in every chunk
+ * @param error - Active error mode
+ */
+function buildSSEEvents(reply: string, model: string, error: MockErrorMode): string[] {
+  const id = `mock-${reply.length}`;
+  const chunk = (delta: Record<string, string>, finishReason: string | null = null) =>
+    `data: ${JSON.stringify({
+      id,
+      object: 'chat.completion.chunk',
+      model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    })}\n\n`;
+
+  if (error === 'empty') {
+    return ['data: [DONE]\n\n'];
+  }
+
+  const events = [chunk({ role: 'assistant' })];
+  const deltas = tokenize(reply);
+
+  deltas.forEach((content, index) => {
+    if (error === 'malformed' && index === Math.floor(deltas.length / 2)) {
+      events.push(`data: {"choices":[{"delta":{"content":"${content}\n\n`);
+      return;
+    }
+    events.push(chunk({ content }));
+  });
+
+  events.push(chunk({}, 'stop'));
+  events.push('data: [DONE]\n\n');
+  return events;
+}
+
+/**
+ * Creates a fetch implementation that emulates an OpenAI-compatible server
+ * @param options - Mock options
+ */
+function createMockFetch(options: MockProviderOptions): typeof fetch {
+  return async (input, init) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+
+    if (url.endsWith('/models')) {
+      return jsonResponse(200, { data: MOCK_MODELS.map(model => ({ id: model.id })) });
+    }
+
+    const body = JSON.parse(String(init?.body || '{}'));
+    const messages: LLMMessage[] = body.messages || [];
+    const model: string = body.model;
+
+    const signal = init?.signal;
+    await sleep(options.latencyMs, signal);
+
+    if (options.error === '429') {
+      return jsonResponse(
+        429,
+        { error: { message: 'Rate limit exceeded', type: 'rate_limit_error' } },
+        { 'Retry-After': '1' }
+      );
+    }
+
+    if (options.error === '500') {
+      return jsonResponse(500, { error: { message: 'Internal server error', type: 'server_error' } });
+    }
+
+    const reply = buildReply(messages, options);
+
+    if (!body.stream) {
+      if (options.error === 'malformed') {
+        return new Response('{"choices": [{"message": {"content": ', {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      return jsonResponse(200, {
+        id: `mock-${reply.length}`,
+        object: 'chat.completion',
+        model,
+        choices: options.error === 'empty'
+          ? []
+          : [{ index: 0, message: { role: 'assistant', content: reply }, finish_reason: 'stop' }],
+      });
+    }
+
+    const encoder = new TextEncoder();
+    const events = buildSSEEvents(reply, model, options.error);
+
+    // Optionally re-slice the byte stream into fixed-size frames so events
+    // straddle network chunk boundaries the way they do over real connections
+    const frames = options.frameSize > 0
+      ? events.join('').match(new RegExp(`[\\s\\S]{1,${options.frameSize}}`, 'g')) || []
+      : events;
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        try {
+          for (const frame of frames) {
+            controller.enqueue(encoder.encode(frame));
+            await sleep(options.chunkDelayMs, signal);
+          }
+          controller.close();
+        } catch (error) {
+          // Aborted mid-stream, surface it to the reader like a dropped connection
+          controller.error(error);
+        }
+      },
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: { 'Content-Type': 'text/event-stream' },
+    });
+  };
+}
+
+/**
+ * Creates the deterministic mock provider for offline development and tests
+ * Speaks the OpenAI wire format so the real streaming code paths are exercised
+ * @param defaultModel - Optional model override
+ * @param options - Mock behaviour, read from the environment by default
+ */
+export function createMockProvider(
+  defaultModel?: string,
+  options: MockProviderOptions = getMockOptionsFromEnv()
+): LLMProvider {
+  return createOpenAICompatibleProvider({
+    name: 'Mock',
+    baseUrl: MOCK_BASE_URL,
+    defaultModel: defaultModel || 'mock-echo',
+    models: MOCK_MODELS,
+    fetch: createMockFetch(options),
+  });
+}
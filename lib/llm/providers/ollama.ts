@@ -0,0 +1,106 @@
+import { ensureOk, parseJSON } from '../http';
+import { DEFAULT_GENERATION } from '../config';
+import { GenerationOptions, LLMMessage, LLMProvider } from '../types';
+
+interface OllamaChatResponse {
+  message?: { content?: string };
+  done?: boolean;
+}
+
+// Model families that accept images
+const OLLAMA_VISION_MODELS = /(llava|vision|moondream|minicpm-v|qwen2\.5vl|gemma3)/i;
+
+/**
+ * Creates a provider for a local or remote Ollama server
+ * Reads the optional OLLAMA_BASE_URL from the environment
+ * @param defaultModel - Optional model override
+ */
+export function createOllamaProvider(defaultModel?: string): LLMProvider {
+  const baseUrl = (process.env.OLLAMA_BASE_URL || 'http://localhost:11434').replace(/\/$/, '');
+  const model = defaultModel || 'llama3.2';
+
+  /**
+   * Sends a chat request to Ollama
+   * @param messages - Conversation to complete
+   * @param options - Sampling parameters
+   * @param stream - Whether to request a streamed response
+   */
+  const request = async (messages: LLMMessage[], options: GenerationOptions, stream: boolean) => {
+    const response = await fetch(`${baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: options.model || model,
+        // Ollama takes images as bare base64 strings on the message
+        messages: messages.map(msg => ({
+          role: msg.role,
+          content: msg.content,
+          images: msg.images?.map(image => image.data),
+        })),
+        stream,
+        options: {
+          num_predict: options.maxTokens ?? DEFAULT_GENERATION.maxTokens,
+          temperature: options.temperature ?? DEFAULT_GENERATION.temperature,
+          top_p: options.topP,
+        },
+      }),
+      signal: options.signal,
+    });
+
+    await ensureOk(response, 'Ollama');
+    return response;
+  };
+
+  return {
+    name: 'Ollama',
+    defaultModel: model,
+
+    async complete(messages, options = {}) {
+      const response = await request(messages, options, false);
+      const data: OllamaChatResponse = await response.json();
+      return data.message?.content || '';
+    },
+
+    async *stream(messages, options = {}) {
+      const response = await request(messages, options, true);
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new Error('Failed to get reader from response');
+      }
+
+      // Ollama streams newline-delimited JSON rather than SSE
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const parsed = parseJSON<OllamaChatResponse>(line);
+          const content = parsed?.message?.content;
+          if (content) yield content;
+          if (parsed?.done) return;
+        }
+      }
+
+      const parsed = parseJSON<OllamaChatResponse>(buffer);
+      if (parsed?.message?.content) yield parsed.message.content;
+    },
+
+    async listModels() {
+      const response = await fetch(`${baseUrl}/api/tags`);
+      await ensureOk(response, 'Ollama');
+      const data: { models?: { name: string }[] } = await response.json();
+      return (data.models || []).map(item => ({ id: item.name, name: item.name }));
+    },
+
+    supportsVision(modelName) {
+      return OLLAMA_VISION_MODELS.test(modelName);
+    },
+  };
+}
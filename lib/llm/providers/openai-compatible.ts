@@ -0,0 +1,126 @@
+import { ensureOk, parseJSON, readSSEData } from '../http';
+import { DEFAULT_GENERATION } from '../config';
+import { GenerationOptions, LLMMessage, LLMModel, LLMProvider } from '../types';
+
+/**
+ * OpenAICompatibleConfig interface
+ * Connection details for any API implementing the OpenAI chat completions format
+ */
+export interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  defaultModel: string;
+  models?: LLMModel[];
+  visionModels?: RegExp;
+  fetch?: typeof fetch;
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string } }[];
+}
+
+type ChatCompletionContent =
+  | string
+  | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+
+/**
+ * Converts a message to the chat completions format
+ * Messages with images use content parts, with each image as a data URL
+ * @param message - Message to convert
+ */
+function toChatCompletionMessage(message: LLMMessage): { role: string; content: ChatCompletionContent } {
+  if (!message.images?.length) {
+    return { role: message.role, content: message.content };
+  }
+
+  return {
+    role: message.role,
+    content: [
+      { type: 'text', text: message.content },
+      ...message.images.map(image => ({
+        type: 'image_url' as const,
+        image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+      })),
+    ],
+  };
+}
+
+/**
+ * Creates a provider for OpenAI-compatible chat completion APIs
+ * Used directly for OpenAI and as the base for Perplexity
+ * Images are only sent to models matching `visionModels`
+ * @param config - Endpoint, credentials and model defaults
+ */
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  const fetcher = config.fetch || fetch;
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (config.apiKey) {
+    headers['Authorization'] = `Bearer ${config.apiKey}`;
+  }
+
+  /**
+   * Sends a chat completion request
+   * @param messages - Conversation to complete
+   * @param options - Sampling parameters
+   * @param stream - Whether to request a streamed response
+   */
+  const request = async (messages: LLMMessage[], options: GenerationOptions, stream: boolean) => {
+    const response = await fetcher(`${config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: options.model || config.defaultModel,
+        messages: messages.map(toChatCompletionMessage),
+        max_tokens: options.maxTokens ?? DEFAULT_GENERATION.maxTokens,
+        temperature: options.temperature ?? DEFAULT_GENERATION.temperature,
+        top_p: options.topP,
+        stream,
+      }),
+      signal: options.signal,
+    });
+
+    await ensureOk(response, config.name);
+    return response;
+  };
+
+  return {
+    name: config.name,
+    defaultModel: config.defaultModel,
+
+    async complete(messages, options = {}) {
+      const response = await request(messages, options, false);
+      const data: ChatCompletionResponse = await response.json();
+      return data.choices?.[0]?.message?.content || '';
+    },
+
+    async *stream(messages, options = {}) {
+      const response = await request(messages, options, true);
+
+      for await (const data of readSSEData(response)) {
+        const parsed = parseJSON<ChatCompletionChunk>(data);
+        const content = parsed?.choices?.[0]?.delta?.content;
+        if (content) yield content;
+      }
+    },
+
+    async listModels() {
+      if (config.models) return config.models;
+
+      const response = await fetcher(`${config.baseUrl}/models`, { headers });
+      await ensureOk(response, config.name);
+      const data: { data?: { id: string }[] } = await response.json();
+      return (data.data || []).map(model => ({ id: model.id, name: model.id }));
+    },
+
+    supportsVision(model) {
+      return !!config.visionModels?.test(model);
+    },
+  };
+}
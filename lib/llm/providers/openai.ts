@@ -0,0 +1,17 @@
+import { LLMProvider } from '../types';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+
+/**
+ * Creates a provider for OpenAI or any OpenAI-compatible server
+ * Reads OPENAI_API_KEY and the optional OPENAI_BASE_URL from the environment
+ * @param defaultModel - Optional model override
+ */
+export function createOpenAIProvider(defaultModel?: string): LLMProvider {
+  return createOpenAICompatibleProvider({
+    name: 'OpenAI',
+    baseUrl: (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, ''),
+    apiKey: process.env.OPENAI_API_KEY,
+    defaultModel: defaultModel || 'gpt-4o-mini',
+    visionModels: /^(gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-5|o1(?!-mini)|o3(?!-mini)|o4)/,
+  });
+}
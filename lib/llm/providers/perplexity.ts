@@ -0,0 +1,29 @@
+import { LLMProvider } from '../types';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+
+/**
+ * Models offered by the Perplexity API
+ * Perplexity has no model listing endpoint, so the catalogue is kept here
+ */
+const PERPLEXITY_MODELS = [
+  { id: 'sonar', name: 'Sonar', contextWindow: 127072 },
+  { id: 'sonar-pro', name: 'Sonar Pro', contextWindow: 200000 },
+  { id: 'sonar-reasoning', name: 'Sonar Reasoning', contextWindow: 127072 },
+  { id: 'sonar-reasoning-pro', name: 'Sonar Reasoning Pro', contextWindow: 127072 },
+];
+
+/**
+ * Creates the Perplexity provider
+ * Reads PERPLEXITY_API_KEY from the environment
+ * @param defaultModel - Optional model override
+ */
+export function createPerplexityProvider(defaultModel?: string): LLMProvider {
+  return createOpenAICompatibleProvider({
+    name: 'Perplexity',
+    baseUrl: 'https://api.perplexity.ai',
+    apiKey: process.env.PERPLEXITY_API_KEY,
+    defaultModel: defaultModel || 'sonar',
+    models: PERPLEXITY_MODELS,
+    visionModels: /^sonar/,
+  });
+}
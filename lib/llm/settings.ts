@@ -0,0 +1,66 @@
+import { ChatSettings } from '@/lib/types/chat';
+import { DEFAULT_GENERATION, GENERATION_LIMITS, SYSTEM_PROMPT_MAX_LENGTH } from './config';
+import { GenerationOptions } from './types';
+
+/**
+ * Validates chat settings received from a client
+ * Returns the cleaned settings or a message describing the first invalid field
+ * @param input - Untrusted settings object from the request body
+ */
+export function validateChatSettings(
+  input: unknown
+): { settings: ChatSettings; error?: undefined } | { settings?: undefined; error: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Settings must be an object' };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const settings: ChatSettings = {};
+
+  if (raw.systemPrompt !== undefined && raw.systemPrompt !== null) {
+    if (typeof raw.systemPrompt !== 'string') {
+      return { error: 'System prompt must be a string' };
+    }
+    if (raw.systemPrompt.length > SYSTEM_PROMPT_MAX_LENGTH) {
+      return { error: `System prompt must be at most ${SYSTEM_PROMPT_MAX_LENGTH} characters` };
+    }
+    if (raw.systemPrompt.trim()) {
+      settings.systemPrompt = raw.systemPrompt.trim();
+    }
+  }
+
+  if (raw.model !== undefined && raw.model !== null && raw.model !== '') {
+    if (typeof raw.model !== 'string') {
+      return { error: 'Model must be a string' };
+    }
+    settings.model = raw.model;
+  }
+
+  for (const key of ['temperature', 'maxTokens', 'topP'] as const) {
+    const value = raw[key];
+    if (value === undefined || value === null) continue;
+
+    const { min, max } = GENERATION_LIMITS[key];
+    if (typeof value !== 'number' || Number.isNaN(value) || value < min || value > max) {
+      return { error: `${key} must be a number between ${min} and ${max}` };
+    }
+    settings[key] = key === 'maxTokens' ? Math.round(value) : value;
+  }
+
+  return { settings };
+}
+
+/**
+ * Builds provider options from a chat's stored settings
+ * Missing values fall back to the application defaults
+ * @param settings - Settings stored on the chat document
+ * @param defaultModel - Model to use when the chat has none, e.g. its project's
+ */
+export function resolveGenerationOptions(settings?: ChatSettings, defaultModel?: string | null): GenerationOptions {
+  return {
+    model: settings?.model || defaultModel || undefined,
+    maxTokens: settings?.maxTokens ?? DEFAULT_GENERATION.maxTokens,
+    temperature: settings?.temperature ?? DEFAULT_GENERATION.temperature,
+    topP: settings?.topP,
+  };
+}
@@ -0,0 +1,56 @@
+import { clampTitle, getFallbackTitle } from '@/lib/chat/title';
+import { TITLE_GENERATION, TITLE_SYSTEM_PROMPT } from './config';
+import { LLMProvider } from './types';
+
+// Only the start of each message is needed to name a conversation
+const TITLE_EXCERPT_LENGTH = 1000;
+
+/**
+ * Cleans up a model-written title
+ * Keeps the first line and drops labels, quotes, markdown and trailing punctuation
+ * @param raw - Model output
+ */
+function sanitizeTitle(raw: string): string {
+  const firstLine = raw.split('\n').map(line => line.trim()).find(Boolean) || '';
+
+  const title = firstLine
+    .replace(/^title\s*:\s*/i, '')
+    .replace(/^[#*"'`\s]+|[*"'`\s]+$/g, '')
+    .replace(/[.!?:;,]+$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return title ? clampTitle(title) : '';
+}
+
+/**
+ * Asks the model for a short title summarising the first exchange of a chat
+ * Falls back to the first words of the user message when generation fails
+ * @param provider - LLM provider to use
+ * @param exchange - First user message and assistant reply
+ * @param model - Optional model override, e.g. the chat's selected model
+ */
+export async function generateChatTitle(
+  provider: LLMProvider,
+  exchange: { userMessage: string; assistantMessage: string },
+  model?: string
+): Promise<string> {
+  const fallback = getFallbackTitle(exchange.userMessage);
+
+  try {
+    const raw = await provider.complete([
+      { role: 'system', content: TITLE_SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content:
+          `User: ${exchange.userMessage.slice(0, TITLE_EXCERPT_LENGTH)}\n\n` +
+          `Assistant: ${exchange.assistantMessage.slice(0, TITLE_EXCERPT_LENGTH)}`,
+      },
+    ], { ...TITLE_GENERATION, model });
+
+    return sanitizeTitle(raw) || fallback;
+  } catch (error) {
+    console.error('Title generation failed:', error);
+    return fallback;
+  }
+}
@@ -0,0 +1,46 @@
+import { LLMMessage } from './types';
+
+/**
+ * Average number of characters per token for English text
+ * Close enough for budgeting across the supported vendors' tokenizers
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Tokens every message costs on top of its content (role, separators)
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Tokens budgeted per attached image
+ * Roughly what the vendors charge for an image downscaled for vision input
+ */
+const IMAGE_TOKENS = 1600;
+
+/**
+ * Estimates the number of tokens in a piece of text
+ * Uses a character heuristic, counting CJK characters as one token each
+ * @param text - Text to measure
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+
+  const wideChars = text.match(/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g)?.length || 0;
+  return wideChars + Math.ceil((text.length - wideChars) / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimates the tokens used by a single chat message including overhead
+ * @param message - Message to measure
+ */
+export function estimateMessageTokens(message: LLMMessage): number {
+  return estimateTokens(message.content) + (message.images?.length || 0) * IMAGE_TOKENS + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Estimates the tokens used by a full message array
+ * @param messages - Messages to measure
+ */
+export function estimateConversationTokens(messages: LLMMessage[]): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+}
@@ -0,0 +1,61 @@
+/**
+ * LLMRole type
+ * Roles understood by every provider's chat completion API
+ */
+export type LLMRole = 'system' | 'user' | 'assistant';
+
+/**
+ * LLMImage interface
+ * A base64-encoded image sent alongside a message to a vision model
+ */
+export interface LLMImage {
+  mimeType: string;
+  data: string;
+}
+
+/**
+ * LLMMessage interface
+ * A single message in the conversation sent to a model
+ * Providers turn `images` into their own content format
+ */
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+  images?: LLMImage[];
+}
+
+/**
+ * GenerationOptions interface
+ * Sampling parameters applied to a single completion request
+ * Unset fields fall back to the provider defaults; the signal cancels the upstream request
+ */
+export interface GenerationOptions {
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * LLMModel interface
+ * Describes a model that a provider can serve
+ */
+export interface LLMModel {
+  id: string;
+  name: string;
+  contextWindow?: number;
+}
+
+/**
+ * LLMProvider interface
+ * Common contract implemented by every model vendor integration
+ */
+export interface LLMProvider {
+  name: string;
+  defaultModel: string;
+  complete(messages: LLMMessage[], options?: GenerationOptions): Promise<string>;
+  stream(messages: LLMMessage[], options?: GenerationOptions): AsyncGenerator<string>;
+  listModels(): Promise<LLMModel[]>;
+  supportsVision(model: string): boolean;
+}
@@ -0,0 +1,15 @@
+import { LLMProvider } from './types';
+
+/**
+ * Whether image attachments can be sent to the model of a request
+ * LLM_VISION=true or false overrides the provider's own model detection,
+ * e.g. for OpenAI-compatible servers hosting other models
+ * @param provider - Active LLM provider
+ * @param model - Model of the request, defaults to the provider's
+ */
+export function canSendImages(provider: LLMProvider, model?: string): boolean {
+  const override = process.env.LLM_VISION;
+  if (override === 'true') return true;
+  if (override === 'false') return false;
+  return provider.supportsVision(model || provider.defaultModel);
+}
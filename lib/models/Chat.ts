@@ -1,13 +1,22 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { Attachment, AttachmentMetadata, ChatSettings, Citation, ContextUsage, MessageAlternative } from '@/lib/types/chat';
 
 /**
  * Message interface for chat messages
  * Represents individual messages in a chat conversation
  */
 export interface IMessage {
+  _id?: Types.ObjectId;
+  parentId?: Types.ObjectId | null;
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  files?: Attachment[];
+  context?: ContextUsage;
+  citations?: Citation[];
+  stopped?: boolean;
+  alternatives?: MessageAlternative[];
+  selectedAlternative?: number;
 }
 
 /**
@@ -18,15 +27,115 @@ export interface IChat extends Document {
   userId: string;
   title: string;
   messages: IMessage[];
+  currentLeafId?: Types.ObjectId | null;
+  settings?: ChatSettings;
+  projectId?: Types.ObjectId | null;
+  pinned?: boolean;
+  archived?: boolean;
+  deletedAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Mongoose schema for document details of an attachment
+ * Embedded in attachments without its own _id
+ */
+const AttachmentMetadataSchema = new Schema<AttachmentMetadata>({
+  pageCount: Number,
+  slideCount: Number,
+  sheetCount: Number,
+  rowCount: Number,
+  title: String,
+  author: String,
+  ocrConfidence: Number,
+  truncated: Boolean,
+}, { _id: false });
+
+/**
+ * Mongoose schema for message attachments
+ * Embedded in messages without its own _id
+ */
+const AttachmentSchema = new Schema<Attachment>({
+  uuid: {
+    type: String,
+    required: true,
+  },
+  name: {
+    type: String,
+    required: true,
+  },
+  size: {
+    type: Number,
+    required: true,
+  },
+  mimeType: {
+    type: String,
+    required: true,
+  },
+  url: String,
+  publicId: String,
+  textContent: String,
+  metadata: AttachmentMetadataSchema,
+  error: String,
+}, { _id: false });
+
+/**
+ * Mongoose schema for context usage of a reply
+ * Embedded without its own _id
+ */
+const ContextUsageSchema = new Schema<ContextUsage>({
+  includedMessages: Number,
+  totalMessages: Number,
+}, { _id: false });
+
+/**
+ * Mongoose schema for document excerpts cited by a reply
+ * Embedded without its own _id
+ */
+const CitationSchema = new Schema<Citation>({
+  index: Number,
+  fileUuid: String,
+  fileName: String,
+  pageStart: Number,
+  pageEnd: Number,
+  lineStart: Number,
+  lineEnd: Number,
+}, { _id: false });
+
+/**
+ * Mongoose schema for regenerated versions of an assistant reply
+ * Embedded without its own _id
+ */
+const MessageAlternativeSchema = new Schema<MessageAlternative>({
+  content: {
+    type: String,
+    required: true,
+  },
+  timestamp: {
+    type: Date,
+    default: Date.now,
+  },
+  context: {
+    type: ContextUsageSchema,
+    required: false,
+  },
+  citations: {
+    type: [CitationSchema],
+    default: undefined,
+  },
+  stopped: Boolean,
+}, { _id: false });
+
 /**
  * Mongoose schema for chat messages
  * Defines structure and validation for message documents
  */
 const MessageSchema = new Schema<IMessage>({
+  parentId: {
+    type: Schema.Types.ObjectId,
+    default: undefined,
+  },
   role: {
     type: String,
     enum: ['user', 'assistant'],
@@ -40,8 +149,44 @@ const MessageSchema = new Schema<IMessage>({
     type: Date,
     default: Date.now,
   },
+  files: {
+    type: [AttachmentSchema],
+    default: undefined,
+  },
+  context: {
+    type: ContextUsageSchema,
+    required: false,
+  },
+  citations: {
+    type: [CitationSchema],
+    default: undefined,
+  },
+  stopped: {
+    type: Boolean,
+    default: undefined,
+  },
+  alternatives: {
+    type: [MessageAlternativeSchema],
+    default: undefined,
+  },
+  selectedAlternative: {
+    type: Number,
+    default: undefined,
+  },
 });
 
+/**
+ * Mongoose schema for per-chat generation settings
+ * Stored as an embedded object without its own _id
+ */
+const ChatSettingsSchema = new Schema<ChatSettings>({
+  systemPrompt: String,
+  model: String,
+  temperature: Number,
+  maxTokens: Number,
+  topP: Number,
+}, { _id: false });
+
 /**
  * Mongoose schema for chat conversations
  * Defines structure, validation, and indexes for chat documents
@@ -57,7 +202,37 @@ const ChatSchema = new Schema<IChat>({
     required: true,
     maxlength: 100,
   },
+  // All messages of every branch; the active branch is the path to currentLeafId
   messages: [MessageSchema],
+  currentLeafId: {
+    type: Schema.Types.ObjectId,
+    required: false,
+  },
+  settings: {
+    type: ChatSettingsSchema,
+    default: {},
+  },
+  // Project the chat is filed under, if any
+  projectId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Project',
+    default: null,
+  },
+  // Pinned chats are listed above the rest in the sidebar
+  pinned: {
+    type: Boolean,
+    default: false,
+  },
+  // Archived chats are hidden from the main list but kept in full
+  archived: {
+    type: Boolean,
+    default: false,
+  },
+  // Set when the chat is moved to the trash; purged after the retention period
+  deletedAt: {
+    type: Date,
+    default: null,
+  },
   createdAt: {
     type: Date,
     default: Date.now,
@@ -79,8 +254,24 @@ ChatSchema.pre('save', function (next) {
 
 /**
  * Compound index for efficient user chat queries
- * Optimizes queries that filter by userId and sort by updatedAt
+ * Optimizes queries that filter by userId and sort by updatedAt,
+ * including the cursor pagination of the chat list
  */
 ChatSchema.index({ userId: 1, updatedAt: -1 });
 
+/**
+ * Index for the trash purge
+ * Finds chats deleted before the retention cutoff
+ */
+ChatSchema.index({ deletedAt: 1 });
+
+/**
+ * Text index for full-text search
+ * Covers chat titles and the content of every message, titles weighted higher
+ */
+ChatSchema.index(
+  { title: 'text', 'messages.content': 'text' },
+  { name: 'chat_text_search', weights: { title: 5, 'messages.content': 1 } }
+);
+
 export default mongoose.models.Chat || mongoose.model<IChat>('Chat', ChatSchema);
\ No newline at end of file
@@ -0,0 +1,79 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+/**
+ * DocumentChunk interface extending Mongoose Document
+ * A passage of a large attachment with its embedding, searched per chat
+ */
+export interface IDocumentChunk extends Document {
+  userId: string;
+  chatId: Types.ObjectId;
+  fileUuid: string;
+  fileName: string;
+  chunkIndex: number;
+  text: string;
+  embedding: number[];
+  pageStart?: number;
+  pageEnd?: number;
+  lineStart: number;
+  lineEnd: number;
+  createdAt: Date;
+}
+
+/**
+ * Mongoose schema for document chunks
+ * Together the chunks of a chat form its vector index; embeddings are
+ * normalized, so similarity is their dot product
+ */
+const DocumentChunkSchema = new Schema<IDocumentChunk>({
+  userId: {
+    type: String,
+    required: true,
+  },
+  chatId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Chat',
+    required: true,
+  },
+  fileUuid: {
+    type: String,
+    required: true,
+  },
+  fileName: {
+    type: String,
+    required: true,
+  },
+  chunkIndex: {
+    type: Number,
+    required: true,
+  },
+  text: {
+    type: String,
+    required: true,
+  },
+  embedding: {
+    type: [Number],
+    required: true,
+  },
+  pageStart: Number,
+  pageEnd: Number,
+  lineStart: {
+    type: Number,
+    required: true,
+  },
+  lineEnd: {
+    type: Number,
+    required: true,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+/**
+ * Index for loading a chat's chunks and checking whether a file is already indexed
+ */
+DocumentChunkSchema.index({ chatId: 1, fileUuid: 1, chunkIndex: 1 }, { unique: true });
+
+export default mongoose.models.DocumentChunk ||
+  mongoose.model<IDocumentChunk>('DocumentChunk', DocumentChunkSchema);
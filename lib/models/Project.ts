@@ -0,0 +1,68 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { CUSTOM_INSTRUCTIONS_MAX_LENGTH } from '@/lib/llm/config';
+import { PROJECT_COLORS, PROJECT_NAME_MAX_LENGTH } from '@/lib/chat/projects';
+
+/**
+ * Project interface extending Mongoose Document
+ * Groups a user's chats under shared instructions and a default model
+ */
+export interface IProject extends Document {
+  userId: string;
+  name: string;
+  color: string;
+  customInstructions: string;
+  defaultModel?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for projects
+ * Chats reference a project through their projectId field
+ */
+const ProjectSchema = new Schema<IProject>({
+  userId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  name: {
+    type: String,
+    required: true,
+    maxlength: PROJECT_NAME_MAX_LENGTH,
+  },
+  color: {
+    type: String,
+    default: PROJECT_COLORS[0],
+  },
+  // Added to the system prompt of every chat in the project
+  customInstructions: {
+    type: String,
+    default: '',
+    maxlength: CUSTOM_INSTRUCTIONS_MAX_LENGTH,
+  },
+  // Used by chats in the project that have not picked a model themselves
+  defaultModel: {
+    type: String,
+    default: null,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+/**
+ * Pre-save middleware
+ * Automatically updates the updatedAt timestamp before saving
+ */
+ProjectSchema.pre('save', function (next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+export default mongoose.models.Project || mongoose.model<IProject>('Project', ProjectSchema);
@@ -0,0 +1,65 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type StreamStatus = 'streaming' | 'stopping' | 'complete' | 'stopped' | 'error';
+
+/**
+ * StreamSession interface extending Mongoose Document
+ * Tracks the progress of one assistant response so clients can resume it
+ */
+export interface IStreamSession extends Document {
+  streamId: string;
+  chatId: string;
+  userId: string;
+  status: StreamStatus;
+  content: string;
+  result?: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for stream sessions
+ * `content` is flushed periodically while generating; `result` holds the final event payload
+ * Sessions expire an hour after creation
+ */
+const StreamSessionSchema = new Schema<IStreamSession>({
+  streamId: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  chatId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  userId: {
+    type: String,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ['streaming', 'stopping', 'complete', 'stopped', 'error'],
+    default: 'streaming',
+  },
+  content: {
+    type: String,
+    default: '',
+  },
+  result: {
+    type: Schema.Types.Mixed,
+    required: false,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+    expires: 60 * 60,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+export default mongoose.models.StreamSession ||
+  mongoose.model<IStreamSession>('StreamSession', StreamSessionSchema);
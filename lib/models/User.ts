@@ -0,0 +1,69 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * User interface extending Mongoose Document
+ * Local copy of a Clerk user's profile, kept in sync by the Clerk webhook
+ */
+export interface IUser extends Document {
+  userId: string;
+  email: string | null;
+  name: string | null;
+  imageUrl: string | null;
+  clerkUpdatedAt: Date;
+  deletedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for users
+ * `clerkUpdatedAt` is the profile version last applied, so replayed or out-of-order
+ * webhook deliveries never overwrite newer data
+ * Deleted users are kept as anonymized tombstones so late deliveries cannot recreate them
+ */
+const UserSchema = new Schema<IUser>({
+  userId: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  email: {
+    type: String,
+    default: null,
+  },
+  name: {
+    type: String,
+    default: null,
+  },
+  imageUrl: {
+    type: String,
+    default: null,
+  },
+  clerkUpdatedAt: {
+    type: Date,
+    required: true,
+  },
+  deletedAt: {
+    type: Date,
+    default: null,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+/**
+ * Pre-save middleware
+ * Automatically updates the updatedAt timestamp before saving
+ */
+UserSchema.pre('save', function (next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+export default mongoose.models.User || mongoose.model<IUser>('User', UserSchema);
@@ -0,0 +1,50 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { CUSTOM_INSTRUCTIONS_MAX_LENGTH } from '@/lib/llm/config';
+
+/**
+ * UserPreferences interface extending Mongoose Document
+ * Holds account-wide settings for a Clerk user
+ */
+export interface IUserPreferences extends Document {
+  userId: string;
+  customInstructions: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for user preferences
+ * One document per Clerk user, created on first save
+ */
+const UserPreferencesSchema = new Schema<IUserPreferences>({
+  userId: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  customInstructions: {
+    type: String,
+    default: '',
+    maxlength: CUSTOM_INSTRUCTIONS_MAX_LENGTH,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+/**
+ * Pre-save middleware
+ * Automatically updates the updatedAt timestamp before saving
+ */
+UserPreferencesSchema.pre('save', function (next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+export default mongoose.models.UserPreferences ||
+  mongoose.model<IUserPreferences>('UserPreferences', UserPreferencesSchema);
@@ -0,0 +1,117 @@
+/**
+ * Target length of a chunk in characters
+ */
+export const CHUNK_SIZE = 1200;
+
+/**
+ * Characters repeated from the end of one chunk at the start of the next,
+ * so a passage cut at a boundary is still found whole
+ */
+export const CHUNK_OVERLAP = 200;
+
+/**
+ * TextChunk interface
+ * A passage of a document with where it came from
+ * Lines are 1-based lines of the extracted text; pages come from `--- Page N ---` markers
+ */
+export interface TextChunk {
+  text: string;
+  lineStart: number;
+  lineEnd: number;
+  pageStart?: number;
+  pageEnd?: number;
+}
+
+interface Segment {
+  text: string;
+  line: number;
+  page?: number;
+}
+
+// Page and slide markers written by the PDF, PPTX and OCR extractors
+const PAGE_MARKER = /^--- (?:Page|Slide) (\d+) ---$/;
+
+/**
+ * Splits text into segments no longer than a chunk, one or more per line
+ * Lines that are too long are cut between words
+ * @param text - Extracted document text
+ */
+function toSegments(text: string): Segment[] {
+  const segments: Segment[] = [];
+  let page: number | undefined;
+
+  text.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const marker = line.match(PAGE_MARKER);
+    if (marker) {
+      page = Number(marker[1]);
+      return;
+    }
+    if (!line) return;
+
+    let rest = line;
+    while (rest.length > CHUNK_SIZE) {
+      const cut = rest.lastIndexOf(' ', CHUNK_SIZE);
+      const end = cut > CHUNK_SIZE / 2 ? cut : CHUNK_SIZE;
+      segments.push({ text: rest.substring(0, end), line: index + 1, page });
+      rest = rest.substring(end).trim();
+    }
+    segments.push({ text: rest, line: index + 1, page });
+  });
+
+  return segments;
+}
+
+/**
+ * Builds a chunk from consecutive segments
+ * @param segments - Segments of the chunk, in order
+ */
+function toChunk(segments: Segment[]): TextChunk {
+  const first = segments[0];
+  const last = segments[segments.length - 1];
+  return {
+    text: segments.map(segment => segment.text).join('\n'),
+    lineStart: first.line,
+    lineEnd: last.line,
+    pageStart: first.page,
+    pageEnd: last.page,
+  };
+}
+
+/**
+ * Splits a document into overlapping chunks of about CHUNK_SIZE characters
+ * Chunks break between lines where possible and keep their line and page ranges
+ * @param text - Extracted document text
+ */
+export function chunkText(text: string): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let current: Segment[] = [];
+  let length = 0;
+
+  for (const segment of toSegments(text)) {
+    if (current.length > 0 && length + segment.text.length > CHUNK_SIZE) {
+      chunks.push(toChunk(current));
+
+      // Carry the tail of the finished chunk over as overlap
+      const overlap: Segment[] = [];
+      let overlapLength = 0;
+      for (let i = current.length - 1; i > 0; i--) {
+        if (overlapLength + current[i].text.length > CHUNK_OVERLAP) break;
+        overlap.unshift(current[i]);
+        overlapLength += current[i].text.length + 1;
+      }
+      // Skip the overlap when it would push the next chunk past the limit
+      const fits = overlapLength + segment.text.length <= CHUNK_SIZE;
+      current = fits ? overlap : [];
+      length = fits ? overlapLength : 0;
+    }
+
+    current.push(segment);
+    length += segment.text.length + 1;
+  }
+
+  if (current.length > 0) {
+    chunks.push(toChunk(current));
+  }
+  return chunks;
+}
@@ -0,0 +1,15 @@
+import { Citation } from '@/lib/types/chat';
+
+/**
+ * Describes where an excerpt comes from, e.g. "report.pdf, pages 3-4" or "notes.txt, lines 10-42"
+ * @param citation - Citation or chunk
+ */
+export function formatCitationSource(citation: Omit<Citation, 'index'>): string {
+  const range = (start: number, end: number) => (start === end ? `${start}` : `${start}-${end}`);
+
+  if (citation.pageStart !== undefined && citation.pageStart !== null) {
+    const pageEnd = citation.pageEnd ?? citation.pageStart;
+    return `${citation.fileName}, ${citation.pageStart === pageEnd ? 'page' : 'pages'} ${range(citation.pageStart, pageEnd)}`;
+  }
+  return `${citation.fileName}, ${citation.lineStart === citation.lineEnd ? 'line' : 'lines'} ${range(citation.lineStart, citation.lineEnd)}`;
+}
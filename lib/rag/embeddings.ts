@@ -0,0 +1,64 @@
+/**
+ * Local text embeddings for document retrieval
+ * A small sentence-transformer runs in-process through ONNX, so document text is
+ * never sent to an embedding API. The model is downloaded ahead of time with
+ * `npm run download-embedding-model` and never fetched at runtime
+ */
+import path from 'path';
+import { env, pipeline, FeatureExtractionPipeline } from '@huggingface/transformers';
+
+/** Model used when EMBEDDING_MODEL is not set; keep in sync with scripts/download-embedding-model.mjs */
+const DEFAULT_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+/** Directory the download script writes models to, unless EMBEDDING_MODEL_PATH is set */
+const EMBEDDING_MODEL_PATH = process.env.EMBEDDING_MODEL_PATH || path.join(process.cwd(), 'models');
+
+/** Texts embedded per model call, to bound memory on large documents */
+const EMBEDDING_BATCH_SIZE = 32;
+
+// Only the downloaded model is loaded, so a missing model fails fast instead of
+// stalling a request on the Hugging Face Hub
+env.localModelPath = EMBEDDING_MODEL_PATH;
+env.allowLocalModels = true;
+env.allowRemoteModels = false;
+
+let extractorPromise: Promise<FeatureExtractionPipeline> | null = null;
+
+/**
+ * Loads the embedding model once per server process
+ */
+function getExtractor(): Promise<FeatureExtractionPipeline> {
+  if (!extractorPromise) {
+    const model = process.env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL;
+    extractorPromise = (pipeline('feature-extraction', model, { dtype: 'q8' }) as Promise<FeatureExtractionPipeline>)
+      .catch(error => {
+        // Allow a later request to retry, e.g. once the model has been downloaded
+        extractorPromise = null;
+        throw new Error(
+          `Embedding model ${model} could not be loaded from ${EMBEDDING_MODEL_PATH}; ` +
+          'run `npm run download-embedding-model` before starting the server',
+          { cause: error }
+        );
+      });
+  }
+  return extractorPromise;
+}
+
+/**
+ * Embeds texts as normalized vectors, so their dot product is the cosine similarity
+ * @param texts - Texts to embed
+ */
+export async function embedTexts(texts: string[]): Promise<number[][]> {
+  const extractor = await getExtractor();
+  const embeddings: number[][] = [];
+
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    const output = await extractor(texts.slice(i, i + EMBEDDING_BATCH_SIZE), {
+      pooling: 'mean',
+      normalize: true,
+    });
+    embeddings.push(...(output.tolist() as number[][]));
+  }
+
+  return embeddings;
+}
@@ -0,0 +1,197 @@
+/**
+ * Retrieval over large attachments
+ * Long documents are split into chunks and embedded once per chat; each question then
+ * gets only the chunks most similar to it, numbered so the reply can cite them
+ */
+import { Types } from 'mongoose';
+import DocumentChunk from '@/lib/models/DocumentChunk';
+import { Attachment, Citation } from '@/lib/types/chat';
+import { chunkText } from './chunking';
+import { formatCitationSource } from './citations';
+import { embedTexts } from './embeddings';
+
+/** Extracted text longer than this is indexed instead of inlined in full */
+export const RAG_MIN_CHARS = 8000;
+
+/** Chunks injected for each question */
+export const RAG_TOP_K = 6;
+
+/** Chunks less similar to the question than this (cosine) are left out */
+const RAG_MIN_SCORE = 0.2;
+
+/**
+ * RetrievedChunk interface
+ * A chunk selected for a question, with its similarity to it
+ */
+export interface RetrievedChunk {
+  fileUuid: string;
+  fileName: string;
+  text: string;
+  pageStart?: number;
+  pageEnd?: number;
+  lineStart: number;
+  lineEnd: number;
+  score: number;
+}
+
+/**
+ * Retrieval interface
+ * Outcome of retrieval for one turn: which files are searched rather than inlined,
+ * the excerpt block for the model and the citations it may reference
+ */
+export interface Retrieval {
+  indexedFiles: Set<string>;
+  excerpts: string;
+  citations: Citation[];
+}
+
+/**
+ * Whether an attachment is long enough to be searched instead of inlined
+ * Placeholders such as "[Image: name]" are never indexed
+ * @param file - Processed attachment
+ */
+export function isIndexable(file: Attachment): boolean {
+  return !!file.textContent && !file.textContent.startsWith('[') && file.textContent.length > RAG_MIN_CHARS;
+}
+
+/**
+ * Chunks and embeds the long attachments of a chat that are not indexed yet
+ * Chunking is deterministic, so an index is complete once every chunk index is stored;
+ * chunks missing after an interrupted run are embedded and added
+ * @param chatId - Chat the files belong to
+ * @param userId - Owner of the chat
+ * @param files - Attachments to index
+ * @returns UUIDs of the files that are indexed
+ */
+export async function indexAttachments(
+  chatId: Types.ObjectId | string,
+  userId: string,
+  files: Attachment[]
+): Promise<Set<string>> {
+  const indexed = new Set<string>();
+
+  for (const file of files.filter(isIndexable)) {
+    if (indexed.has(file.uuid)) continue;
+
+    const chunks = chunkText(file.textContent!);
+    if (chunks.length === 0) continue;
+
+    const stored = new Set<number>(
+      await DocumentChunk.distinct('chunkIndex', { chatId, fileUuid: file.uuid })
+    );
+    const missing = chunks
+      .map((chunk, chunkIndex) => ({ ...chunk, chunkIndex }))
+      .filter(chunk => !stored.has(chunk.chunkIndex));
+
+    if (missing.length > 0) {
+      const embeddings = await embedTexts(missing.map(chunk => chunk.text));
+      try {
+        await DocumentChunk.insertMany(
+          missing.map((chunk, index) => ({
+            ...chunk,
+            userId,
+            chatId,
+            fileUuid: file.uuid,
+            fileName: file.name,
+            embedding: embeddings[index],
+          })),
+          { ordered: false }
+        );
+      } catch (error) {
+        // Indexed concurrently by another request
+        if ((error as { code?: number }).code !== 11000) throw error;
+      }
+    }
+    indexed.add(file.uuid);
+  }
+
+  return indexed;
+}
+
+/**
+ * Finds the indexed chunks most similar to a question
+ * @param chatId - Chat to search
+ * @param fileUuids - Files to search, e.g. those on the active branch
+ * @param query - Question of the user
+ * @returns Up to RAG_TOP_K chunks, most similar first
+ */
+export async function retrieveChunks(
+  chatId: Types.ObjectId | string,
+  fileUuids: string[],
+  query: string
+): Promise<RetrievedChunk[]> {
+  if (fileUuids.length === 0) return [];
+
+  const chunks = await DocumentChunk.find({ chatId, fileUuid: { $in: fileUuids } })
+    .select('fileUuid fileName text embedding pageStart pageEnd lineStart lineEnd')
+    .lean<(Omit<RetrievedChunk, 'score'> & { embedding: number[] })[]>();
+  if (chunks.length === 0) return [];
+
+  const [queryEmbedding] = await embedTexts([query]);
+
+  return chunks
+    .map(({ embedding, ...chunk }) => ({
+      ...chunk,
+      score: embedding.reduce((total, value, index) => total + value * queryEmbedding[index], 0),
+    }))
+    .filter(chunk => chunk.score >= RAG_MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, RAG_TOP_K);
+}
+
+/**
+ * Builds the excerpt block handed to the model and the matching citations
+ * Excerpts are numbered from 1 in order of similarity
+ * @param chunks - Retrieved chunks
+ */
+function buildExcerpts(chunks: RetrievedChunk[]): Pick<Retrieval, 'excerpts' | 'citations'> {
+  const citations = chunks.map((chunk, index) => ({
+    index: index + 1,
+    fileUuid: chunk.fileUuid,
+    fileName: chunk.fileName,
+    pageStart: chunk.pageStart ?? undefined,
+    pageEnd: chunk.pageEnd ?? undefined,
+    lineStart: chunk.lineStart,
+    lineEnd: chunk.lineEnd,
+  }));
+
+  if (chunks.length === 0) {
+    return { excerpts: '', citations };
+  }
+
+  const blocks = chunks.map((chunk, index) =>
+    `[${index + 1}] ${formatCitationSource(citations[index])}\n${chunk.text}`
+  );
+  return {
+    excerpts: `[Relevant excerpts from the attached documents. Cite them by number, e.g. [1], when you use them:\n\n${blocks.join('\n\n')}]`,
+    citations,
+  };
+}
+
+/**
+ * Indexes the long attachments of the active branch and retrieves the excerpts relevant to a question
+ * Failures are logged and leave every file to be inlined in full, as without retrieval
+ * @param chatId - Chat the question is asked in
+ * @param userId - Owner of the chat
+ * @param files - Attachments on the path to the question, oldest first
+ * @param query - Question of the user
+ */
+export async function retrieveForQuestion(
+  chatId: Types.ObjectId | string,
+  userId: string,
+  files: Attachment[],
+  query: string
+): Promise<Retrieval> {
+  if (!files.some(isIndexable)) {
+    return { indexedFiles: new Set(), excerpts: '', citations: [] };
+  }
+
+  try {
+    const indexedFiles = await indexAttachments(chatId, userId, files);
+    const chunks = await retrieveChunks(chatId, [...indexedFiles], query);
+    return { indexedFiles, ...buildExcerpts(chunks) };
+  } catch (error) {
+    console.error('❌ Document retrieval failed, inlining attachments:', error);
+    return { indexedFiles: new Set(), excerpts: '', citations: [] };
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { createSSEParser, formatSSE, readSSEEvents } from './sse';
+
+/**
+ * Feeds chunks to a fresh parser and collects every event
+ * @param chunks - Parts of the stream, in order
+ */
+function parseChunks(chunks: string[]) {
+  const parser = createSSEParser();
+  return chunks.flatMap(chunk => parser.feed(chunk));
+}
+
+/**
+ * Builds a response body that delivers the given byte chunks one by one
+ * @param chunks - Raw bytes of each read
+ */
+function toStream(chunks: Uint8Array[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(chunk));
+      controller.close();
+    },
+  });
+}
+
+describe('createSSEParser', () => {
+  it('parses an event split in the middle of a line', () => {
+    expect(parseChunks(['da', 'ta: hel', 'lo\n', '\n'])).toEqual([
+      { event: 'message', data: 'hello', id: undefined, retry: undefined },
+    ]);
+  });
+
+  it('treats CRLF split between CR and LF as a single line break', () => {
+    const events = parseChunks(['data: one\r', '\n\r', '\ndata: two\r\n\r\n']);
+    expect(events.map(event => event.data)).toEqual(['one', 'two']);
+  });
+
+  it('accepts bare CR line endings', () => {
+    expect(parseChunks(['data: a\r\rdata: b\r\r']).map(event => event.data)).toEqual(['a', 'b']);
+  });
+
+  it('joins multi-line data with newlines', () => {
+    const events = parseChunks(['event: update\ndata: first\n', 'data: second\ndata\n\n']);
+    expect(events).toEqual([
+      { event: 'update', data: 'first\nsecond\n', id: undefined, retry: undefined },
+    ]);
+  });
+
+  it('reads id and retry fields and keeps the last id for later events', () => {
+    const events = parseChunks(['id: 42\nretry: 3000\ndata: a\n\n', 'data: b\n\n', 'retry: soon\nid: x\0y\ndata: c\n\n']);
+    expect(events).toEqual([
+      { event: 'message', data: 'a', id: '42', retry: 3000 },
+      { event: 'message', data: 'b', id: '42', retry: undefined },
+      { event: 'message', data: 'c', id: '42', retry: undefined },
+    ]);
+  });
+
+  it('ignores comments and events without data', () => {
+    expect(parseChunks([': keep-alive\n\nevent: ping\n\n'])).toEqual([]);
+  });
+
+  it('discards an unterminated event on flush', () => {
+    const parser = createSSEParser();
+    expect(parser.feed('data: partial\n')).toEqual([]);
+    expect(parser.flush()).toEqual([]);
+    expect(parser.feed('data: next\n\n').map(event => event.data)).toEqual(['next']);
+  });
+});
+
+describe('readSSEEvents', () => {
+  it('keeps a multi-byte character split across chunks intact', async () => {
+    const bytes = new TextEncoder().encode('data: café \u{1F600}\n\n');
+    // Split inside both the two-byte é and the four-byte emoji
+    const emojiStart = bytes.length - 6;
+    const chunks = [bytes.slice(0, 10), bytes.slice(10, emojiStart + 2), bytes.slice(emojiStart + 2)];
+
+    const events = [];
+    for await (const event of readSSEEvents(toStream(chunks))) {
+      events.push(event);
+    }
+    expect(events.map(event => event.data)).toEqual(['café \u{1F600}']);
+  });
+});
+
+describe('formatSSE', () => {
+  it('round-trips multi-line payloads with an id', () => {
+    const frame = formatSSE('line one\nline two', { event: 'chunk', id: 7 });
+    expect(parseChunks([frame])).toEqual([
+      { event: 'chunk', data: 'line one\nline two', id: '7', retry: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Server-Sent Events helpers shared by the API routes, the LLM providers and the browser hooks
+ * Parsing follows the WHATWG event stream format and is safe across arbitrary chunk boundaries
+ */
+
+export interface SSEEvent {
+  event: string;
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+export interface SSEParser {
+  feed: (chunk: string) => SSEEvent[];
+  flush: () => SSEEvent[];
+}
+
+interface FormatSSEOptions {
+  event?: string;
+  id?: string | number;
+}
+
+/**
+ * Creates an incremental SSE parser
+ * Partial lines are buffered until their terminator arrives, so events may be split
+ * anywhere - including between `\r` and `\n` - without being dropped or corrupted
+ */
+export function createSSEParser(): SSEParser {
+  let buffer = '';
+  let pendingCR = false;
+  let eventType = '';
+  let dataLines: string[] = [];
+  let lastEventId: string | undefined;
+  let retry: number | undefined;
+
+  /**
+   * Dispatches the event collected so far, if it carried any data
+   * @param events - Output list to push the event onto
+   */
+  const dispatch = (events: SSEEvent[]) => {
+    if (dataLines.length > 0) {
+      events.push({
+        event: eventType || 'message',
+        data: dataLines.join('\n'),
+        id: lastEventId,
+        retry,
+      });
+    }
+    eventType = '';
+    dataLines = [];
+    retry = undefined;
+  };
+
+  /**
+   * Applies a single complete line to the event being built
+   * @param line - Line without its terminator
+   * @param events - Output list for dispatched events
+   */
+  const processLine = (line: string, events: SSEEvent[]) => {
+    if (line === '') {
+      dispatch(events);
+      return;
+    }
+    if (line.startsWith(':')) return; // Comment / keep-alive
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        eventType = value;
+        break;
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) retry = Number(value);
+        break;
+    }
+  };
+
+  return {
+    feed(chunk) {
+      const events: SSEEvent[] = [];
+      let text = chunk;
+
+      // A `\r` ending the previous chunk already terminated its line
+      if (pendingCR && text.startsWith('\n')) {
+        text = text.slice(1);
+      }
+      pendingCR = false;
+
+      buffer += text;
+
+      let start = 0;
+      for (let i = 0; i < buffer.length; i++) {
+        const char = buffer[i];
+        if (char !== '\n' && char !== '\r') continue;
+
+        processLine(buffer.slice(start, i), events);
+
+        if (char === '\r') {
+          if (i + 1 === buffer.length) {
+            pendingCR = true;
+          } else if (buffer[i + 1] === '\n') {
+            i++;
+          }
+        }
+        start = i + 1;
+      }
+
+      buffer = buffer.slice(start);
+      return events;
+    },
+
+    flush() {
+      // Per the spec, an event without its terminating blank line is discarded
+      buffer = '';
+      pendingCR = false;
+      eventType = '';
+      dataLines = [];
+      retry = undefined;
+      return [];
+    },
+  };
+}
+
+/**
+ * Reads an SSE response body as a sequence of parsed events
+ * @param body - Byte stream of the response
+ */
+export async function* readSSEEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = createSSEParser();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      // `stream: true` keeps multi-byte characters split across chunks intact
+      for (const event of parser.feed(decoder.decode(value, { stream: true }))) {
+        yield event;
+      }
+    }
+
+    for (const event of parser.feed(decoder.decode())) {
+      yield event;
+    }
+    parser.flush();
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Serialises a payload as a single SSE event
+ * Multi-line data is split across several `data:` fields so it survives parsing intact
+ * @param payload - Event data; non-string values are JSON encoded
+ * @param options - Optional event name and id
+ */
+export function formatSSE(payload: unknown, options: FormatSSEOptions = {}): string {
+  const data = typeof payload === 'string' ? payload : JSON.stringify(payload);
+  let frame = '';
+
+  if (options.event) frame += `event: ${options.event}\n`;
+  if (options.id !== undefined) frame += `id: ${options.id}\n`;
+
+  for (const line of data.split(/\r\n|\r|\n/)) {
+    frame += `data: ${line}\n`;
+  }
+
+  return `${frame}\n`;
+}
@@ -0,0 +1,49 @@
+/**
+ * Bookkeeping for resumable assistant responses
+ * Generation runs independently of the request that started it; clients follow it
+ * through the StreamSession document and stop it explicitly
+ */
+
+/** How often partial content is written to the stream session */
+export const STREAM_FLUSH_INTERVAL_MS = 250;
+
+/** How often a resumed stream polls the session for new content */
+export const STREAM_POLL_INTERVAL_MS = 300;
+
+/**
+ * How often a running generation touches its session while no content is flushed,
+ * e.g. during retrieval or before the first token
+ */
+export const STREAM_HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+/** A session that has not been flushed or touched for this long is treated as abandoned */
+export const STREAM_STALE_AFTER_MS = 60 * 1000;
+
+// Abort controllers of generations running in this server process
+const activeGenerations = new Map<string, AbortController>();
+
+/**
+ * Registers the abort controller of a running generation
+ * @param streamId - Stream session id
+ * @param controller - Controller that cancels the upstream model request
+ */
+export function trackGeneration(streamId: string, controller: AbortController): void {
+  activeGenerations.set(streamId, controller);
+}
+
+/**
+ * Removes a finished generation from the registry
+ * @param streamId - Stream session id
+ */
+export function untrackGeneration(streamId: string): void {
+  activeGenerations.delete(streamId);
+}
+
+/**
+ * Aborts a generation if it runs in this process
+ * Generations on other instances notice the `stopping` status on their next flush
+ * @param streamId - Stream session id
+ */
+export function abortGeneration(streamId: string): void {
+  activeGenerations.get(streamId)?.abort();
+}
@@ -0,0 +1,73 @@
+/**
+ * Soft-deleted chats
+ * Deleting a chat sets its `deletedAt`; it can be restored until it is purged,
+ * either by the user or by the scheduled job once the retention period has passed
+ */
+import Chat, { IChat } from '@/lib/models/Chat';
+import DocumentChunk from '@/lib/models/DocumentChunk';
+import { deleteFromCloudinary, getCloudinaryResourceType } from '@/lib/cloudinary';
+
+/** Days a chat stays in the trash when TRASH_RETENTION_DAYS is not set */
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days a chat stays in the trash before it is purged
+ * Read from TRASH_RETENTION_DAYS
+ */
+export function getTrashRetentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Permanently deletes a chat along with the Cloudinary files of its messages
+ * and the document chunks indexed for it
+ * The chat is kept if any file could not be deleted, so a later purge can retry
+ * @param chat - Chat document, with at least `messages.files` loaded
+ * @returns Whether the chat was deleted
+ */
+export async function purgeChat(chat: IChat): Promise<boolean> {
+  const files = chat.messages.flatMap(message => message.files || []);
+  const results = await Promise.allSettled(
+    files
+      .filter(file => file.publicId)
+      .map(file => deleteFromCloudinary(file.publicId!, getCloudinaryResourceType(file.mimeType)))
+  );
+
+  const failed = results.filter(result => result.status === 'rejected').length;
+  if (failed > 0) {
+    console.error(`❌ Kept chat ${chat._id}: ${failed} attachment(s) could not be deleted`);
+    return false;
+  }
+
+  await Chat.deleteOne({ _id: chat._id });
+  await DocumentChunk.deleteMany({ chatId: chat._id });
+  return true;
+}
+
+/**
+ * Purges every chat that has been in the trash longer than the retention period
+ * @param now - Reference time
+ * @returns Counts of purged chats and of chats kept for a retry
+ */
+export async function purgeExpiredChats(now: Date = new Date()): Promise<{ purged: number; failed: number }> {
+  const cutoff = new Date(now.getTime() - getTrashRetentionDays() * DAY_MS);
+  let purged = 0;
+  let failed = 0;
+
+  const expired = Chat.find({ deletedAt: { $ne: null, $lte: cutoff } })
+    .select('_id messages.files')
+    .cursor();
+
+  for await (const chat of expired) {
+    if (await purgeChat(chat)) {
+      purged++;
+    } else {
+      failed++;
+    }
+  }
+
+  return { purged, failed };
+}
@@ -1,42 +1,186 @@
 /**
- * ProcessedFile interface
- * Represents a file attachment that has been processed and uploaded
+ * UploadedFile interface
+ * A file picked in the chat input, read into a data URL before processing
+ * `ocrText` is the recognized text of an image or scan, as reviewed by the user
  */
-export interface ProcessedFile {
+export interface UploadedFile {
   uuid: string;
   name: string;
   size: number;
   mimeType: string;
   cdnUrl: string;
   originalUrl: string;
-  cloudinaryUrl?: string;
-  cloudinaryPublicId?: string;
+  ocrText?: string;
+  ocrConfidence?: number;
+}
+
+/**
+ * OcrResponse interface
+ * Text recognized in an image or scanned PDF; `text` is null when there is nothing to read
+ */
+export interface OcrResponse {
+  text: string | null;
+  confidence: number;
+}
+
+/**
+ * AttachmentMetadata interface
+ * Document details found while extracting an attachment's text
+ * `ocrConfidence` (0-100) is set when the text was recognized from pixels;
+ * `truncated` is set when only part of the document was read
+ */
+export interface AttachmentMetadata {
+  pageCount?: number;
+  slideCount?: number;
+  sheetCount?: number;
+  rowCount?: number;
+  title?: string;
+  author?: string;
+  ocrConfidence?: number;
+  truncated?: boolean;
+}
+
+/**
+ * Attachment interface
+ * A processed file as stored on a chat message
+ * `url` points at Cloudinary when the upload succeeded; `textContent` is what the model sees
+ * `signature` proves the server issued `publicId`; it travels to the client and back but is not stored
+ */
+export interface Attachment {
+  uuid: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  url?: string;
+  publicId?: string;
+  signature?: string;
   textContent?: string;
+  metadata?: AttachmentMetadata;
   error?: string;
 }
 
+/**
+ * ContextUsage interface
+ * How much of the conversation was sent to the model for a reply
+ */
+export interface ContextUsage {
+  includedMessages: number;
+  totalMessages: number;
+}
+
+/**
+ * Citation interface
+ * A document excerpt retrieved for a reply; `index` is the [n] marker the model cites
+ * Pages are set for paged documents, lines always
+ */
+export interface Citation {
+  index: number;
+  fileUuid: string;
+  fileName: string;
+  pageStart?: number;
+  pageEnd?: number;
+  lineStart: number;
+  lineEnd: number;
+}
+
+/**
+ * MessageAlternative interface
+ * One generated version of an assistant reply
+ */
+export interface MessageAlternative {
+  content: string;
+  timestamp: Date;
+  context?: ContextUsage;
+  citations?: Citation[];
+  stopped?: boolean;
+}
+
+/**
+ * MessageBranch interface
+ * Position of a message among alternative versions sharing the same parent
+ */
+export interface MessageBranch {
+  index: number;
+  total: number;
+  siblingIds: string[];
+}
+
 /**
  * ChatMessage interface
  * Represents a single message in a chat conversation
  * Can include file attachments
+ * `_id` is assigned by the server; optimistic messages do not have one yet
+ * `branch` is set on messages of the active path that have sibling versions
+ * Regenerated assistant replies keep every version in `alternatives`; the message
+ * fields mirror the one at `selectedAlternative`
  */
 export interface ChatMessage {
+  _id?: string;
+  parentId?: string | null;
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
-  files?: ProcessedFile[];
+  files?: Attachment[];
+  context?: ContextUsage;
+  citations?: Citation[];
+  stopped?: boolean;
+  alternatives?: MessageAlternative[];
+  selectedAlternative?: number;
+  branch?: MessageBranch;
+}
+
+/**
+ * ChatSettings interface
+ * Per-chat model selection and generation parameters
+ * Unset fields fall back to the provider defaults
+ */
+export interface ChatSettings {
+  systemPrompt?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+}
+
+/**
+ * ModelCatalog interface
+ * Models offered by the configured provider and its default settings
+ */
+export interface ModelCatalog {
+  provider: string;
+  models: { id: string; name: string; contextWindow?: number }[];
+  defaults: {
+    model: string;
+    maxTokens: number;
+    temperature: number;
+  };
+}
+
+/**
+ * UserPreferences interface
+ * Account-wide settings applied to every chat
+ */
+export interface UserPreferences {
+  customInstructions: string;
 }
 
 /**
  * ChatData interface
  * Complete chat conversation data including all messages
  * Used for full chat display and interaction
+ * `messages` holds the active branch, ending at `currentLeafId`
  */
 export interface ChatData {
   _id: string;
   userId: string;
   title: string;
   messages: ChatMessage[];
+  currentLeafId?: string;
+  settings?: ChatSettings;
+  projectId?: string | null;
+  pinned?: boolean;
+  archived?: boolean;
+  deletedAt?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -49,6 +193,87 @@ export interface ChatData {
 export interface ChatSummary {
   _id: string;
   title: string;
+  projectId?: string | null;
+  pinned?: boolean;
+  archived?: boolean;
+  deletedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Which chats a chat list shows: active, archived or in the trash
+ */
+export type ChatListView = 'active' | 'archived' | 'trash';
+
+/**
+ * ChatUpdate interface
+ * Fields of a chat that can be changed from the chat list
+ */
+export interface ChatUpdate {
+  title?: string;
+  projectId?: string | null;
+  pinned?: boolean;
+  archived?: boolean;
+}
+
+/**
+ * Project interface
+ * A folder of chats sharing instructions and a default model
+ */
+export interface Project {
+  _id: string;
+  name: string;
+  color: string;
+  customInstructions: string;
+  defaultModel?: string | null;
   createdAt: string;
   updatedAt: string;
-}
\ No newline at end of file
+}
+
+/**
+ * ProjectInput interface
+ * Editable project fields; a null `defaultModel` clears it
+ */
+export interface ProjectInput {
+  name?: string;
+  color?: string;
+  customInstructions?: string;
+  defaultModel?: string | null;
+}
+
+/**
+ * SearchHighlight interface
+ * A matched range of text, as [start, end) character offsets
+ */
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
+/**
+ * SearchMatch interface
+ * A message matching a search, with a short excerpt around the first hit
+ * `snippet` may start or end with an ellipsis; `highlights` index into it
+ * and `offset` is where the excerpt starts within the message content
+ */
+export interface SearchMatch {
+  messageId: string;
+  role: 'user' | 'assistant';
+  snippet: string;
+  offset: number;
+  highlights: SearchHighlight[];
+}
+
+/**
+ * SearchResult interface
+ * A chat matching a search, with its highlighted title and matching messages
+ */
+export interface SearchResult {
+  chatId: string;
+  title: string;
+  titleHighlights: SearchHighlight[];
+  archived?: boolean;
+  updatedAt: string;
+  matches: SearchMatch[];
+}
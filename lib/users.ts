@@ -0,0 +1,91 @@
+/**
+ * Account lifecycle driven by Clerk webhooks
+ * Every operation is safe to repeat, since Clerk retries deliveries until they succeed
+ * and may deliver events out of order
+ */
+import type { UserJSON } from '@clerk/nextjs/server';
+import Chat from '@/lib/models/Chat';
+import DocumentChunk from '@/lib/models/DocumentChunk';
+import Project from '@/lib/models/Project';
+import StreamSession from '@/lib/models/StreamSession';
+import User from '@/lib/models/User';
+import UserPreferences from '@/lib/models/UserPreferences';
+import { purgeChat } from '@/lib/trash';
+
+/** MongoDB error code for a unique index violation */
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Stores the profile of a created or updated Clerk user
+ * Ignored when a newer version is already stored or the user has been deleted
+ * @param data - User payload of the webhook event
+ * @returns Whether the profile was written
+ */
+export async function syncUser(data: UserJSON): Promise<boolean> {
+  const primaryEmail = data.email_addresses.find(email => email.id === data.primary_email_address_id);
+  const name = [data.first_name, data.last_name].filter(Boolean).join(' ');
+  const clerkUpdatedAt = new Date(data.updated_at);
+
+  try {
+    // A stale or deleted user fails the filter, so the upsert collides with it and is dropped
+    const user = await User.findOneAndUpdate(
+      { userId: data.id, deletedAt: null, clerkUpdatedAt: { $not: { $gte: clerkUpdatedAt } } },
+      {
+        $set: {
+          email: primaryEmail?.email_address || null,
+          name: name || null,
+          imageUrl: data.image_url || null,
+          clerkUpdatedAt,
+          updatedAt: new Date(),
+        },
+      },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+    return !!user;
+  } catch (error) {
+    if ((error as { code?: number }).code === DUPLICATE_KEY_ERROR) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Deletes everything stored for a Clerk user: chats with their Cloudinary files,
+ * projects, preferences, stream sessions and indexed document chunks
+ * The user record is reduced to an anonymized tombstone. Chats whose files could
+ * not be deleted are kept so a retried delivery can finish the purge
+ * @param userId - Clerk user id
+ * @returns Counts of purged chats and of chats kept for a retry
+ */
+export async function purgeUserData(userId: string): Promise<{ purged: number; failed: number }> {
+  await User.updateOne(
+    { userId },
+    {
+      $set: { email: null, name: null, imageUrl: null, deletedAt: new Date(), updatedAt: new Date() },
+      $setOnInsert: { clerkUpdatedAt: new Date() },
+    },
+    { upsert: true }
+  );
+
+  let purged = 0;
+  let failed = 0;
+
+  const chats = Chat.find({ userId }).select('_id messages.files').cursor();
+  for await (const chat of chats) {
+    if (await purgeChat(chat)) {
+      purged++;
+    } else {
+      failed++;
+    }
+  }
+
+  await Promise.all([
+    Project.deleteMany({ userId }),
+    UserPreferences.deleteMany({ userId }),
+    StreamSession.deleteMany({ userId }),
+    DocumentChunk.deleteMany({ userId }),
+  ]);
+
+  return { purged, failed };
+}
@@ -4,6 +4,10 @@ const isPublicRoute = createRouteMatcher([
   "/signin(.*)",
   "/signup(.*)",
   "/sso-callback",
+  // Scheduled jobs authenticate with CRON_SECRET instead of a session
+  "/api/cron(.*)",
+  // Webhooks are verified by their signature
+  "/api/webhooks(.*)",
 ]);
 
 export default clerkMiddleware(async (auth, req) => {
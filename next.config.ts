@@ -3,6 +3,16 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   /* config options here */
   devIndicators: false,
+  // Tesseract starts its OCR worker from a file path, and transformers.js loads the
+  // native ONNX runtime, both of which break when bundled
+  serverExternalPackages: ["tesseract.js", "@huggingface/transformers"],
+  // OCR language data and the downloaded embedding model are read from disk at runtime,
+  // which output tracing cannot see
+  outputFileTracingIncludes: {
+    "/api/files/*": ["./node_modules/@tesseract.js-data/eng/4.0.0/**"],
+    "/api/chats/*/stream": ["./models/**"],
+    "/api/chats/*/messages/*/regenerate": ["./models/**"],
+  },
 };
 
 export default nextConfig;
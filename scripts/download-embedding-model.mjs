@@ -0,0 +1,29 @@
+/**
+ * Downloads the embedding model used for document retrieval
+ * The server never fetches models at runtime, so run this once before `npm run dev`
+ * and as part of every production build. Files already present are not downloaded again
+ *
+ * Reads EMBEDDING_MODEL and EMBEDDING_MODEL_PATH like lib/rag/embeddings.ts
+ */
+import path from 'path';
+import { env, pipeline } from '@huggingface/transformers';
+
+const DEFAULT_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+const model = process.env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL;
+const modelPath = process.env.EMBEDDING_MODEL_PATH || path.join(process.cwd(), 'models');
+
+// Downloads are cached with the same layout the server loads local models from
+env.localModelPath = modelPath;
+env.cacheDir = modelPath;
+env.allowRemoteModels = true;
+
+try {
+  console.log(`Downloading embedding model ${model} to ${modelPath}...`);
+  const extractor = await pipeline('feature-extraction', model, { dtype: 'q8' });
+  await extractor.dispose();
+  console.log('Embedding model ready');
+} catch (error) {
+  console.error(`Failed to download embedding model ${model} from the Hugging Face Hub:`, error);
+  process.exitCode = 1;
+}